@@ -4,7 +4,9 @@ const config: Config = {
   preset: 'ts-jest',
   testMatch: ['<rootDir>/test/**/*.ts', '<rootDir>/test/**/*.tsx'],
   testEnvironment: 'node',
-  testPathIgnorePatterns: ['/node_modules/', '/dist/'],
+  testPathIgnorePatterns: ['/node_modules/', '/dist/', '<rootDir>/test/helpers/'],
+  // Tests import shared helpers as `.js`, the way ES modules import TypeScript files.
+  moduleNameMapper: { '^(\\.{1,2}/.*)\\.js$': '$1' },
 };
 
 export default config;
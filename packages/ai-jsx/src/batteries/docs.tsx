@@ -6,7 +6,6 @@
 
 import { Embeddings } from 'langchain/embeddings/base';
 import { OpenAIEmbeddings } from 'langchain/embeddings/openai';
-import { TokenTextSplitter } from 'langchain/text_splitter';
 import { VectorStore } from 'langchain/vectorstores';
 import _ from 'lodash';
 import { similarity } from 'ml-distance';
@@ -14,6 +13,8 @@ import { Jsonifiable } from 'type-fest';
 import z from 'zod';
 import { ChatCompletion, SystemMessage, UserMessage } from '../core/completion.js';
 import { AIJSXError, ErrorCode } from '../core/errors.js';
+import { Shrinkable } from '../core/shrinkable.js';
+import { Tokenizer, cl100kTokenizer } from '../core/tokenizer.js';
 import * as AI from '../index.js';
 import { Node } from '../index.js';
 import { getEnvVar } from '../lib/util.js';
@@ -261,27 +262,41 @@ export type Chunker<
   ChunkMetadata extends Jsonifiable = Jsonifiable
 > = (document: Document<DocumentMetadata>) => Promise<Chunk<ChunkMetadata>[]>;
 
-/** Creates a {@link Chunker} with the given parameters. */
+/**
+ * Creates a {@link Chunker} that splits documents into chunks of `chunkSize` tokens, each of which overlaps the
+ * previous chunk by `chunkOverlap` tokens.
+ *
+ * @param tokenizer The tokenizer used to count tokens. The default matches OpenAI's current embedding and chat models.
+ */
 export function makeChunker<Metadata extends Jsonifiable = Jsonifiable>(
   chunkSize: number,
-  chunkOverlap: number
+  chunkOverlap: number,
+  tokenizer: Tokenizer = cl100kTokenizer
 ): Chunker<Metadata, Metadata> {
-  return async (doc: Document<Metadata>) => {
-    const splitter = new TokenTextSplitter({
-      encodingName: 'gpt2',
-      chunkSize,
-      chunkOverlap,
+  if (chunkOverlap >= chunkSize) {
+    throw new AIJSXError(
+      `The chunk overlap (${chunkOverlap}) must be smaller than the chunk size (${chunkSize}).`,
+      ErrorCode.ChunkerBadInput,
+      'user',
+      { chunkSize, chunkOverlap }
+    );
+  }
+
+  return (doc: Document<Metadata>) => {
+    const chunks = doc.pageContent.flatMap((text) => {
+      const tokens = tokenizer.encode(text);
+      const contents = [] as string[];
+      for (let start = 0; start < tokens.length; start += chunkSize - chunkOverlap) {
+        contents.push(tokenizer.decode(tokens.slice(start, start + chunkSize)));
+        if (start + chunkSize >= tokens.length) {
+          break;
+        }
+      }
+      return contents;
     });
-    const lcDocs = await splitter.createDocuments(doc.pageContent);
-    const chunks = lcDocs.map(
-      (lcDoc) =>
-        ({
-          content: lcDoc.pageContent,
-          documentName: doc.name,
-          metadata: doc.metadata,
-        } as Chunk<Metadata>)
+    return Promise.resolve(
+      chunks.map((content) => ({ content, documentName: doc.name, metadata: doc.metadata } as Chunk<Metadata>))
     );
-    return chunks;
   };
 }
 
@@ -330,8 +345,11 @@ export class LangChainEmbeddingWrapper implements Embedding {
   }
 }
 
-/** A default embedding useful for DocsQA. Note that this requires `OPENAI_API_KEY` to be set. */
-function defaultEmbedding() {
+/**
+ * A default embedding useful for DocsQA. Note that this requires `OPENAI_API_KEY` to be set.
+ * @hidden
+ */
+export function defaultEmbedding() {
   const apiKey = getEnvVar('OPENAI_API_KEY');
   return new LangChainEmbeddingWrapper(new OpenAIEmbeddings({ openAIApiKey: apiKey }));
 }
@@ -746,8 +764,8 @@ export interface DocsQAProps<ChunkMetadata extends Jsonifiable = Jsonifiable> {
   /**
    *
    * When processing a DocsQA query, the most relevent chunks are presented to the model. This
-   * field limits the number of chunks to consider. If this value is too large, the size
-   * of the chunks may exceed the token limit of the model.
+   * field limits the number of chunks to consider. If the chunks don't fit in the model's
+   * context window, the least relevant are dropped.
    */
   chunkLimit?: number;
 
@@ -802,7 +820,10 @@ export async function DocsQA<ChunkMetadata extends Jsonifiable = Jsonifiable>(pr
         You are a trained question answerer. Answer questions truthfully, using only the document excerpts below. Do not
         use any other knowledge you have about the world. If you don't know how to answer the question, just say "I
         don't know." Here are the relevant document excerpts you have been given:
-        {chunks.map((chunk) => chunkFormatter({ doc: chunk }))}
+        {chunks.map((chunk, i) => (
+          // The chunks are in order of relevance, so the least relevant are dropped first if they don't all fit.
+          <Shrinkable importance={-i}>{chunkFormatter({ doc: chunk })}</Shrinkable>
+        ))}
         And here is the question you must answer:
       </SystemMessage>
       <UserMessage>{props.question}</UserMessage>
@@ -844,7 +865,10 @@ export async function* DocsQAWithCitations<ChunkMetadata extends Jsonifiable = J
         You are a trained question answerer. Answer questions truthfully, using only the document excerpts below. Do not
         use any other knowledge you have about the world. If you don't know how to answer the question, just say "I
         don't know." Here are the relevant document excerpts you have been given:
-        {chunks.map((chunk) => chunkFormatter({ doc: chunk }))}
+        {chunks.map((chunk, i) => (
+          // The chunks are in order of relevance, so the least relevant are dropped first if they don't all fit.
+          <Shrinkable importance={-i}>{chunkFormatter({ doc: chunk })}</Shrinkable>
+        ))}
         And here is the question you must answer:
       </SystemMessage>
       <UserMessage>{props.question}</UserMessage>
@@ -4,7 +4,6 @@
  * You can see examples package for an example with OpenTelemetry.
  * @packageDocumentation
  */
-import { AsyncLocalStorage } from 'node:async_hooks';
 import { v4 as uuidv4 } from 'uuid';
 import { StatusCode, WBTraceTree, addChildSpan } from '@nick.heiner/wandb-fork';
 import * as AI from '../index.js';
@@ -12,22 +11,6 @@ import { debug } from '../core/debug.js';
 
 type WBSpan = Parameters<typeof addChildSpan>[0];
 
-function bindAsyncGenerator<T = unknown, TReturn = any, TNext = unknown>(
-  generator: AsyncGenerator<T, TReturn, TNext>
-): AsyncGenerator<T, TReturn, TNext> {
-  const result = {
-    next: AsyncLocalStorage.bind(generator.next.bind(generator)),
-    return: AsyncLocalStorage.bind(generator.return.bind(generator)),
-    throw: AsyncLocalStorage.bind(generator.throw.bind(generator)),
-
-    [Symbol.asyncIterator]() {
-      return result;
-    },
-  };
-
-  return result;
-}
-
 /**
  * Weights and Biases logging integration for AI.JSX.
  * The tracer allows for the creation of a trace tree that can be visualized in the
@@ -68,68 +51,64 @@ export function WeightsAndBiasesTracer(
      */
     log: (_: Record<string, unknown>, step?: number, commit?: boolean) => any;
   },
-  { wrapRender }: AI.ComponentContext
+  { addHooks }: AI.ComponentContext
 ) {
-  const currentSpanStorage = new AsyncLocalStorage<WBSpan>();
-  const baseTime = new Date().valueOf() - performance.now();
+  // Spans for the elements that are currently rendering, keyed by renderId.
+  const spans = new Map<string, WBSpan>();
 
   return AI.withContext(
     <>{children}</>,
-    wrapRender((r) => (renderContext, renderable, shouldStop, appendOnly) => {
-      if (!AI.isElement(renderable)) {
-        return r(renderContext, renderable, shouldStop, appendOnly);
-      }
+    addHooks({
+      onElementStart({ renderId, parentRenderId, element, startTime }) {
+        const newSpan: WBSpan = {
+          name: `<${element.tag.name}>`,
+          start_time_ms: startTime,
+          span_id: uuidv4(),
+          end_time_ms: null,
+          status_code: null,
+          status_message: null,
+          attributes: {
+            'ai.jsx-tag': element.tag.name,
+            'ai.jsx-tree': debug(element, true),
+          },
+          results: null,
+          child_spans: null,
+          span_kind: null,
+        };
 
-      const newSpan = {
-        name: `<${renderable.tag.name}>`,
-        start_time_ms: baseTime + performance.now(),
-        span_id: uuidv4(),
-        end_time_ms: null,
-        status_code: null,
-        status_message: null,
-        attributes: {
-          'ai.jsx-tag': renderable.tag.name,
-          'ai.jsx-tree': debug(renderable, true),
-        },
-        results: null,
-        child_spans: null,
-        span_kind: null,
-      };
+        const parentSpan = parentRenderId === null ? undefined : spans.get(parentRenderId);
+        if (parentSpan) {
+          addChildSpan(parentSpan, newSpan);
+        }
+        spans.set(renderId, newSpan);
+      },
 
-      const parentSpan = currentSpanStorage.getStore();
-      if (parentSpan) {
-        addChildSpan(parentSpan, newSpan);
-      }
+      onError({ renderId, error }) {
+        const span = spans.get(renderId);
+        if (span) {
+          span.status_code = StatusCode.ERROR;
+          span.status_message = `${error}`;
+        }
+      },
 
-      return currentSpanStorage.run(newSpan, () => {
-        async function* gen() {
-          const currentSpan = currentSpanStorage.getStore();
-          try {
-            const result = yield* r(renderContext, renderable, shouldStop, appendOnly);
-            if (currentSpan) {
-              currentSpan.status_code = StatusCode.SUCCESS;
-            }
-            return result;
-          } catch (ex) {
-            if (currentSpan) {
-              currentSpan.status_code = StatusCode.ERROR;
-              currentSpan.status_message = `${ex}`;
-            }
+      onElementEnd({ renderId, parentRenderId, endTime, output }) {
+        const span = spans.get(renderId);
+        if (!span) {
+          return;
+        }
 
-            throw ex;
-          } finally {
-            // End the span.
-            if (currentSpan) {
-              currentSpan.end_time_ms = baseTime + performance.now();
-              if (!parentSpan) {
-                log({ langchain_trace: new WBTraceTree(currentSpan).toJSON() });
-              }
-            }
-          }
+        if (output !== undefined) {
+          span.status_code = StatusCode.SUCCESS;
         }
+        span.end_time_ms = endTime;
+        spans.delete(renderId);
 
-        return bindAsyncGenerator(gen());
-      });
+        // Log the trace once its root span ends.
+        const isRoot = parentRenderId === null || !spans.has(parentRenderId);
+        if (isRoot) {
+          log({ langchain_trace: new WBTraceTree(span).toJSON() });
+        }
+      },
     })
   );
 }
@@ -60,6 +60,8 @@ const noMatch = 'None of the routes match what the user said.';
  * The router will find the first two routes, and ask the model to pick between "first option" and "second option".
  * "third option" will not be presented as a choice, and its children will always be rendered.
  *
+ * There can be any number of routes. If the model's reply isn't one of them, the `unmatched` route (if any) is picked.
+ *
  * @see Route
  */
 export async function* NaturalLanguageRouter(props: { children: Node; query: Node }, { render }: RenderContext) {
@@ -79,20 +81,23 @@ export async function* NaturalLanguageRouter(props: { children: Node; query: Nod
     whenOptions = [...whenOptions, noMatch];
   }
 
-  // This will need to be tweaked when `i` is more than one token.
-  const logitBiases = Object.fromEntries(_.range(whenOptions.length + 1).map((i) => [i.toString(), 100]));
+  // The choices are numbered with labels of equal length, and the model is kept to digits (each of which is a single
+  // token for every tokenizer), so its reply can be read however many routes there are and however it tokenizes them.
+  const labelLength = String(whenOptions.length - 1).length;
+  const label = (index: number) => String(index).padStart(labelLength, '0');
+  const logitBiases = Object.fromEntries(_.range(10).map((digit) => [digit.toString(), 100]));
 
   // Yield the surrounding content before blocking on the completion.
   yield renderedChildren.filter((e) => !AI.isElement(e));
 
   const choice = await render(
-    <ChatCompletion maxTokens={1} logitBias={logitBiases}>
+    <ChatCompletion maxTokens={labelLength} logitBias={logitBiases}>
       <SystemMessage>
         You are an expert text query matching agent. Your job is to match the user's query against one of the following
         choices. Pick the choice that best describes the user's query. The available choices are:{'\n\n'}
         {whenOptions.map((when, index) => (
           <>
-            {index}: {when}{' '}
+            {label(index)}: {when}{' '}
           </>
         ))}
         {'\n\n'}
@@ -103,7 +108,8 @@ export async function* NaturalLanguageRouter(props: { children: Node; query: Nod
     </ChatCompletion>
   );
 
-  const choiceIndex = parseInt(choice);
+  // A reply that isn't one of the choices is treated as no match.
+  const chosen = whenOptions[parseInt(choice.slice(0, labelLength))] ?? noMatch;
 
   // Keep only the routes that matched.
   return renderedChildren.filter((e) => {
@@ -112,7 +118,7 @@ export async function* NaturalLanguageRouter(props: { children: Node; query: Nod
     }
 
     const props = e.props as RouteProps;
-    return props.unmatched ? choiceIndex === 0 : props.when === whenOptions[choiceIndex];
+    return props.unmatched ? chosen === noMatch : props.when === chosen;
   });
 }
 
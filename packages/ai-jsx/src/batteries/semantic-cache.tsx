@@ -0,0 +1,222 @@
+/**
+ * This module provides the {@link SemanticCache} component, which reuses model responses to questions that are
+ * similar, rather than identical, to ones that have been asked before.
+ * @packageDocumentation
+ */
+
+import { similarity } from 'ml-distance';
+import * as AI from '../index.js';
+import { ComponentContext, Node } from '../index.js';
+import {
+  AssistantMessage,
+  ModelComponent,
+  ModelPropsWithChildren,
+  RenderedChatMessage,
+  chatContext,
+  renderChatMessages,
+} from '../core/completion.js';
+import { hash, normalize } from '../lib/util.js';
+import { Embedding, defaultEmbedding } from './docs.js';
+
+/** A question answered by a model, along with the answer it gave. */
+export interface SemanticCacheEntry {
+  /**
+   * Identifies the conversations in which the answer may be reused: those with the same model and system messages.
+   */
+  scope: string;
+  /** The content of the final {@link UserMessage} the model was sent. */
+  question: string;
+  /** The embedding of the question. */
+  vector: number[];
+  /** The model's response. */
+  answer: string;
+}
+
+/** A {@link SemanticCacheEntry} along with its cosine similarity to a question being looked up. */
+export interface ScoredSemanticCacheEntry {
+  entry: SemanticCacheEntry;
+  similarity: number;
+}
+
+/**
+ * Where a {@link SemanticCache} keeps previously answered questions.
+ */
+export interface SemanticCacheStore {
+  /** Finds the entry within `scope` whose vector is most similar to `vector`, if there are any. */
+  search(vector: number[], scope: string): Promise<ScoredSemanticCacheEntry | undefined>;
+  add(entry: SemanticCacheEntry): Promise<void>;
+}
+
+/**
+ * A {@link SemanticCacheStore} that keeps entries in memory and searches them exhaustively. Once it has more than
+ * `maxEntries`, the least recently used entries are evicted.
+ */
+export class MemorySemanticCacheStore implements SemanticCacheStore {
+  private readonly entries = new Set<SemanticCacheEntry>();
+
+  constructor(readonly maxEntries: number = 1000) {}
+
+  search(vector: number[], scope: string) {
+    let best = undefined as ScoredSemanticCacheEntry | undefined;
+    for (const entry of this.entries) {
+      if (entry.scope !== scope) {
+        continue;
+      }
+      const score = similarity.cosine(vector, entry.vector);
+      if (best === undefined || score > best.similarity) {
+        best = { entry, similarity: score };
+      }
+    }
+    if (best) {
+      // Sets iterate in insertion order, so re-inserting the entry marks it as the most recently used.
+      this.entries.delete(best.entry);
+      this.entries.add(best.entry);
+    }
+    return Promise.resolve(best);
+  }
+
+  add(entry: SemanticCacheEntry) {
+    this.entries.add(entry);
+    for (const oldestEntry of this.entries) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(oldestEntry);
+    }
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Counts the lookups made by the {@link SemanticCache}s that share it.
+ */
+export class SemanticCacheMetrics {
+  /** The number of lookups answered from the cache. */
+  hits = 0;
+  /** The number of lookups that had to call the model. */
+  misses = 0;
+
+  get lookups() {
+    return this.hits + this.misses;
+  }
+
+  /** The fraction of lookups answered from the cache, or 0 if there haven't been any. */
+  get hitRate() {
+    return this.lookups === 0 ? 0 : this.hits / this.lookups;
+  }
+}
+
+/** The store used by {@link SemanticCache} when none is provided. */
+const defaultStore = new MemorySemanticCacheStore();
+
+interface SemanticCacheOptions {
+  threshold: number;
+  embedding: Embedding;
+  store: SemanticCacheStore;
+  metrics: SemanticCacheMetrics | undefined;
+}
+
+function semanticallyCachedChatModel(Model: ModelComponent<any>, options: SemanticCacheOptions) {
+  return async function* SemanticallyCachedChatModel(
+    { children, ...props }: ModelPropsWithChildren,
+    { render, memo, logger }: ComponentContext
+  ): AI.RenderableStream {
+    // The messages are rendered both for the lookup and by the model, so make sure they only render once.
+    const messages = memo(children);
+    const renderedMessages = await renderChatMessages(messages, render);
+    const question = renderedMessages[renderedMessages.length - 1] as RenderedChatMessage | undefined;
+    if (question?.role !== 'user') {
+      logger.debug('Not caching a model call that does not end with a user message');
+      return <Model {...props}>{messages}</Model>;
+    }
+
+    const scope = hash(
+      JSON.stringify(
+        normalize({
+          model: Model.name,
+          modelName: (props as Record<string, unknown>).model,
+          system: renderedMessages.filter((message) => message.role === 'system'),
+        })
+      )
+    );
+    const vector = await options.embedding.embed(question.content);
+    const match = await options.store.search(vector, scope);
+    if (match && match.similarity >= options.threshold) {
+      if (options.metrics) {
+        options.metrics.hits++;
+      }
+      logger.debug({ similarity: match.similarity, cachedQuestion: match.entry.question }, 'Semantic cache hit');
+      return <AssistantMessage>{match.entry.answer}</AssistantMessage>;
+    }
+    if (options.metrics) {
+      options.metrics.misses++;
+    }
+    logger.debug({ similarity: match?.similarity }, 'Semantic cache miss');
+
+    // Stream the response as-is, then record it. (It's memoized, so the model is only called once.)
+    yield AI.AppendOnlyStream;
+    const response = memo(<Model {...props}>{messages}</Model>);
+    yield response;
+
+    const parts = await render(response, { stop: (e) => e.tag === AssistantMessage });
+    if (parts.length > 0 && parts.every((part) => typeof part !== 'string' && part.tag === AssistantMessage)) {
+      const answers = await Promise.all(parts.map((part) => render(part)));
+      await options.store.add({ scope, question: question.content, vector, answer: answers.join('') });
+    }
+    return AI.AppendOnlyStream;
+  };
+}
+
+/**
+ * Reuses the answers of the chat models used by {@link ChatCompletion}s within it when they're asked a question
+ * similar to one they've answered before.
+ *
+ * The content of the final {@link UserMessage} sent to the model is embedded, and if a previously answered question's
+ * embedding has a cosine similarity of at least `threshold` with it, the previous answer is returned without calling
+ * the model. Answers are only reused in conversations with the same model and {@link SystemMessage}s. Responses that
+ * include a {@link FunctionCall}, and calls that don't end with a `UserMessage`, aren't cached.
+ *
+ * Pass `metrics` to count cache hits and misses. They're also logged at the `debug` level.
+ *
+ * @example
+ * ```tsx
+ *  const metrics = new SemanticCacheMetrics();
+ *
+ *  <SemanticCache threshold={0.95} metrics={metrics}>
+ *    <ChatCompletion>
+ *      <SystemMessage>You are a customer service agent for Acme Corp.</SystemMessage>
+ *      <UserMessage>{question}</UserMessage>
+ *    </ChatCompletion>
+ *  </SemanticCache>
+ *
+ *  console.log(metrics.hitRate);
+ * ```
+ */
+export function SemanticCache(
+  {
+    children,
+    threshold = 0.95,
+    embedding,
+    store = defaultStore,
+    metrics,
+  }: {
+    children: Node;
+    /** The minimum cosine similarity at which a question's cached answer is reused. */
+    threshold?: number;
+    /** The embedding used to compare questions. If not provided, OpenAI's embeddings are used. */
+    embedding?: Embedding;
+    /** Where to cache answers. If not provided, an in-memory store shared by all `SemanticCache`s is used. */
+    store?: SemanticCacheStore;
+    /** Where to count cache hits and misses. */
+    metrics?: SemanticCacheMetrics;
+  },
+  { getContext }: ComponentContext
+) {
+  const [ChatModel, chatDefaults] = getContext(chatContext);
+  const options = { threshold, embedding: embedding ?? defaultEmbedding(), store, metrics };
+  return (
+    <chatContext.Provider value={[semanticallyCachedChatModel(ChatModel, options), chatDefaults]}>
+      {children}
+    </chatContext.Provider>
+  );
+}
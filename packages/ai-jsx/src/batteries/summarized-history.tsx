@@ -0,0 +1,157 @@
+/**
+ * This module provides the {@link SummarizedHistory} component, which keeps long conversations within a token budget
+ * by summarizing their older messages.
+ * @packageDocumentation
+ */
+
+import { ChatCompletionResponseMessage } from 'openai';
+import { ComponentContext, Node } from '../index.js';
+import { CacheStore, MemoryCacheStore } from '../core/cache.js';
+import { ChatCompletion, ConversationHistory, SystemMessage, UserMessage } from '../core/completion.js';
+import { Tokenizer, cl100kTokenizer } from '../core/tokenizer.js';
+import { hash } from '../lib/util.js';
+
+/** The store used by {@link SummarizedHistory} when none is provided. */
+const defaultStore = new MemoryCacheStore();
+
+/** Formats a message as a line of a transcript. */
+function formatMessage(message: ChatCompletionResponseMessage) {
+  if (message.function_call) {
+    return `${message.role}: [called ${message.function_call.name} with ${message.function_call.arguments}]`;
+  }
+  return `${message.role}: ${message.content ?? ''}`;
+}
+
+/**
+ * Summarizes `messages` with a {@link ChatCompletion}, updating `previousSummary` (the summary of the messages before
+ * them) if there is one.
+ */
+function Summary({
+  previousSummary,
+  messages,
+  maxTokens,
+}: {
+  previousSummary: string | undefined;
+  messages: ChatCompletionResponseMessage[];
+  maxTokens: number;
+}) {
+  return (
+    <ChatCompletion maxTokens={maxTokens}>
+      <SystemMessage>
+        You summarize conversations between a user and an AI assistant, so that the assistant can continue the
+        conversation without seeing the messages themselves. Keep the facts, names, decisions and open questions that
+        later replies may depend on, and leave out pleasantries. Reply with the summary only.
+      </SystemMessage>
+      <UserMessage>
+        {previousSummary === undefined
+          ? 'Summarize these messages:'
+          : `Here is a summary of the conversation so far:\n${previousSummary}\n\nUpdate it with these later messages:`}
+        {'\n'}
+        {messages.map(formatMessage).join('\n')}
+      </UserMessage>
+    </ChatCompletion>
+  );
+}
+
+/**
+ * Includes a conversation's messages in a {@link ChatCompletion} (like {@link ConversationHistory}), keeping them
+ * under `maxTokens` by replacing older messages with a summary.
+ *
+ * As many of the most recent messages as fit in `maxTokens - maxSummaryTokens` are included verbatim. Once the
+ * conversation outgrows that, the older messages are summarized by a `ChatCompletion` and included as a
+ * `SystemMessage` instead. Enough messages are summarized to leave room for a few more turns, and summaries are
+ * cached in `store`, so they aren't recomputed on every turn. When the conversation outgrows them, each summary
+ * is updated with the messages since, rather than summarizing the whole conversation again.
+ *
+ * @example
+ * ```tsx
+ *    <ChatCompletion>
+ *      <SystemMessage>You are a helpful travel agent.</SystemMessage>
+ *      <SummarizedHistory messages={history} maxTokens={2000} />
+ *      <UserMessage>{question}</UserMessage>
+ *    </ChatCompletion>
+ * ```
+ */
+export async function SummarizedHistory(
+  {
+    messages,
+    maxTokens,
+    maxSummaryTokens = Math.floor(maxTokens / 4),
+    tokenizer = cl100kTokenizer,
+    store = defaultStore,
+  }: {
+    /** The conversation's messages, oldest first. */
+    messages: ChatCompletionResponseMessage[];
+    /** The most tokens the history (including its summary) may take up. */
+    maxTokens: number;
+    /** The most tokens a summary may take up. Defaults to a quarter of `maxTokens`. */
+    maxSummaryTokens?: number;
+    /** The tokenizer used to count the messages' tokens. Defaults to the one used by `gpt-4` and `gpt-3.5-turbo`. */
+    tokenizer?: Tokenizer;
+    /** Where to cache summaries. If not provided, an in-memory store shared by all `SummarizedHistory`s is used. */
+    store?: CacheStore;
+  },
+  { render, logger }: ComponentContext
+): Promise<Node> {
+  // Each message also takes up a few tokens of formatting.
+  const tokenCounts = messages.map((message) => 3 + tokenizer.encode(formatMessage(message)).length);
+
+  /** Finds the start of the longest run of recent messages that fits in `budget` tokens. */
+  function firstThatFits(budget: number) {
+    let start = messages.length;
+    let tokens = 0;
+    while (start > 0 && tokens + tokenCounts[start - 1] <= budget) {
+      tokens += tokenCounts[--start];
+    }
+    return start;
+  }
+
+  const verbatimTokens = maxTokens - maxSummaryTokens;
+  const firstVerbatim = firstThatFits(verbatimTokens);
+  if (firstVerbatim === 0) {
+    return <ConversationHistory messages={messages} />;
+  }
+
+  // Summaries are keyed by the messages they summarize. Each key builds on the last, so finding them is linear.
+  const keys = [hash('')];
+  for (const message of messages) {
+    keys.push(hash(keys[keys.length - 1] + JSON.stringify(message)));
+  }
+  const summaryOf = async (length: number) => (await store.get(`summary:${keys[length]}`))?.chunks.join('');
+  const withSummary = (summary: string, length: number) => [
+    <SystemMessage>Here is a summary of the earlier conversation: {summary}</SystemMessage>,
+    <ConversationHistory messages={messages.slice(length)} />,
+  ];
+
+  // If an earlier turn's summary still leaves room for the messages since, use it.
+  for (let length = firstVerbatim; length <= messages.length; length++) {
+    const summary = await summaryOf(length);
+    if (summary !== undefined) {
+      logger.debug({ summarizedMessages: length }, 'Using cached summary');
+      return withSummary(summary, length);
+    }
+  }
+
+  // Otherwise, update the latest summary of fewer messages (if there is one) with enough messages to leave half of
+  // the room for the verbatim messages free.
+  const summarizedLength = firstThatFits(verbatimTokens / 2);
+  let previousLength = firstVerbatim - 1;
+  let previousSummary: string | undefined;
+  for (; previousLength > 0; previousLength--) {
+    previousSummary = await summaryOf(previousLength);
+    if (previousSummary !== undefined) {
+      break;
+    }
+  }
+
+  logger.debug({ previousLength, summarizedLength }, 'Summarizing conversation history');
+  const summary = await render(
+    <Summary
+      previousSummary={previousSummary}
+      messages={messages.slice(previousLength, summarizedLength)}
+      maxTokens={maxSummaryTokens}
+    />
+  );
+  await store.set(`summary:${keys[summarizedLength]}`, { chunks: [summary], expiresAt: null });
+  return withSummary(summary, summarizedLength);
+}
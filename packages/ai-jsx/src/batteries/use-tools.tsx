@@ -10,6 +10,7 @@ import {
   FunctionCall,
   FunctionParameters,
   FunctionResponse,
+  PlainFunctionParameter,
   SystemMessage,
   UserMessage,
 } from '../core/completion.js';
@@ -20,11 +21,14 @@ import {
   Element,
   AppendOnlyStream,
   ComponentContext,
+  PropsOfComponent,
   RenderableStream,
 } from '../index.js';
+import _ from 'lodash';
 import z from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 import { AIJSXError, ErrorCode } from '../core/errors.js';
+import { normalize } from '../lib/util.js';
 
 const toolChoiceSchema = z.object({
   nameOfTool: z.string(),
@@ -105,10 +109,43 @@ async function InvokeTool(
   );
 }
 
+/** The type of the argument for a {@link PlainFunctionParameter} with the given JSON Schema `type`. */
+type PlainArg<Type> = Type extends 'string'
+  ? string
+  : Type extends 'number' | 'integer'
+  ? number
+  : Type extends 'boolean'
+  ? boolean
+  : Type extends 'array'
+  ? unknown[]
+  : Type extends 'object'
+  ? Record<string, unknown>
+  : Type extends 'null'
+  ? null
+  : unknown;
+
+/** The arguments for a map of {@link PlainFunctionParameter}s. Those that aren't required may be omitted. */
+type PlainArgs<Params extends Record<string, PlainFunctionParameter>> = {
+  [Name in keyof Params as Params[Name]['required'] extends true ? Name : never]: PlainArg<Params[Name]['type']>;
+} & {
+  [Name in keyof Params as Params[Name]['required'] extends true ? never : Name]?: PlainArg<Params[Name]['type']>;
+};
+
+/**
+ * The arguments a {@link Tool}'s `func` is called with, inferred from its `parameters`.
+ */
+export type ToolArgs<Params extends FunctionParameters> = Params extends z.ZodObject<any>
+  ? z.infer<Params>
+  : Params extends Record<string, PlainFunctionParameter>
+  ? PlainArgs<Params>
+  : never;
+
 /**
  * Represents a tool that can be provided for the Large Language Model.
+ *
+ * To infer the type of `func`'s arguments from `parameters`, define tools with {@link defineTool}.
  */
-export interface Tool {
+export interface Tool<Params extends FunctionParameters = FunctionParameters> {
   /**
    * A description of what the tool does.
    */
@@ -117,13 +154,34 @@ export interface Tool {
   /**
    * A map of parameter names to their description and type.
    */
-  parameters: FunctionParameters;
+  parameters: Params;
 
   /**
-   * A function to invoke the tool.
+   * A function to invoke the tool. It's called with the arguments the model chose, once they've been validated
+   * against `parameters`.
    */
-  // Can we use Zod to do better than any[]?
-  func: (...args: any[]) => string | number | boolean | null | undefined | Promise<string | number | boolean | null>;
+  // Tools whose parameters aren't inferred (i.e. plain `Tool`s) still accept any signature, as they always have.
+  func: FunctionParameters extends Params ? (...args: any[]) => ToolResult : (args: ToolArgs<Params>) => ToolResult;
+}
+
+/** What a {@link Tool}'s `func` returns. */
+type ToolResult = string | number | boolean | null | undefined | Promise<string | number | boolean | null>;
+
+/**
+ * Defines a {@link Tool}, inferring the type of its `func`'s arguments from its `parameters`.
+ *
+ * @example
+ * ```tsx
+ *  const getWeather = defineTool({
+ *    description: 'Gets the weather in a city',
+ *    parameters: { city: { type: 'string', required: true } },
+ *    // `city` is a string.
+ *    func: ({ city }) => fetchWeather(city),
+ *  });
+ * ```
+ */
+export function defineTool<const Params extends FunctionParameters>(tool: Tool<Params>): Tool<Params> {
+  return tool;
 }
 
 /**
@@ -148,9 +206,47 @@ export interface UseToolsProps {
   /**
    * A fallback response to use if the AI doesn't think any of the tools are relevant. This is only used for models that do not support functions natively. Models that support functions natively don't need this, because they generate
    * their own messages in the case of failure.
+   *
+   * It's also used if a limit on tool use is reached and `onLimitReached` is `'fallback'`.
    */
   fallback: Node;
 
+  /**
+   * The most tools to run at once (at least 1), when the AI calls several tools in one response. By default, they all
+   * run at once.
+   *
+   * However many run at once, their results are given to the AI in the order it called them.
+   */
+  maxConcurrentToolCalls?: number;
+
+  /**
+   * The most times the AI may be called, counting every call (a whole number, at least 1). Defaults to 10.
+   *
+   * With `onLimitReached` set to `'finalAnswer'`, the last call is made without tools. Otherwise, the limit is reached
+   * if the AI still calls tools in its last response.
+   */
+  maxIterations?: number;
+
+  /**
+   * The most times the AI may call each tool: either one limit for all of them, or limits for some of them by name.
+   * Each limit must be a whole number, at least 1. By default, there are no per-tool limits.
+   */
+  maxCallsPerTool?: number | Record<string, number>;
+
+  /**
+   * The most times the AI may make the same call (to the same tool, with the same arguments). Repeating a call is
+   * usually a sign that the AI is stuck in a loop. Must be a whole number, at least 1. Defaults to 3.
+   */
+  maxIdenticalCalls?: number;
+
+  /**
+   * What to do once a limit on tool use is reached. The tool calls that would go over the limit aren't made. Then:
+   *  - `'finalAnswer'` (the default) has the AI respond to the conversation so far without tools;
+   *  - `'fallback'` renders `fallback`;
+   *  - `'throw'` throws an error.
+   */
+  onLimitReached?: 'finalAnswer' | 'fallback' | 'throw';
+
   /**
    * User data the AI can use to determine what parameters to invoke the tool with.
    *
@@ -218,6 +314,133 @@ export async function* UseTools(props: UseToolsProps, { render }: RenderContext)
   }
 }
 
+/** Converts {@link PlainFunctionParameter}s to a Zod schema, so that arguments can be validated against them. */
+function plainParametersSchema(parameters: Record<string, PlainFunctionParameter>) {
+  return z
+    .object(
+      _.mapValues(parameters, ({ type, required }) => {
+        let schema: z.ZodTypeAny;
+        switch (type) {
+          case 'string':
+            schema = z.string();
+            break;
+          case 'number':
+            schema = z.number();
+            break;
+          case 'integer':
+            schema = z.number().int();
+            break;
+          case 'boolean':
+            schema = z.boolean();
+            break;
+          case 'array':
+            schema = z.array(z.unknown());
+            break;
+          case 'object':
+            schema = z.record(z.unknown());
+            break;
+          case 'null':
+            schema = z.null();
+            break;
+          default:
+            schema = z.unknown();
+        }
+        return required ? schema : schema.optional();
+      })
+    )
+    .passthrough();
+}
+
+/**
+ * Calls the tool a model chose, returning the tool's result or, if it fails, a description of the error for the model.
+ * The arguments are validated first, so that the model can correct them if they're invalid.
+ */
+async function callTool(tools: Record<string, Tool>, { name, args }: PropsOfComponent<typeof FunctionCall>) {
+  if (!(name in tools)) {
+    return `Function call to ${name} failed with error: there is no function named ${name}.`;
+  }
+
+  const { parameters, func } = tools[name];
+  const parsedArgs = (parameters instanceof z.ZodObject ? parameters : plainParametersSchema(parameters)).safeParse(
+    args
+  );
+  if (!parsedArgs.success) {
+    const problems = parsedArgs.error.issues.map(({ path, message }) =>
+      path.length ? `${path.join('.')}: ${message}` : message
+    );
+    return `Function call to ${name} failed because its arguments were invalid (${problems.join(
+      '; '
+    )}). Call it again with valid arguments.`;
+  }
+
+  try {
+    return await func(parsedArgs.data);
+  } catch (e: any) {
+    return `Function call to ${name} failed with error: ${e.message}.`;
+  }
+}
+
+/**
+ * Calls `fn` on each of `items`, with no more than `limit` calls running at once, and returns their results in order.
+ */
+function mapWithLimit<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R>[] {
+  let running = 0;
+  const waiting = [] as (() => void)[];
+  return items.map(async (item) => {
+    if (running >= limit) {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+    running++;
+    try {
+      return await fn(item);
+    } finally {
+      running--;
+      waiting.shift()?.();
+    }
+  });
+}
+
+/**
+ * Throws unless `limit` is a whole number of at least 1, or `Infinity`. (Anything else would never be reached.)
+ */
+function checkLimit(name: string, limit: number | undefined) {
+  if (limit !== undefined && limit !== Infinity && !(Number.isInteger(limit) && limit >= 1)) {
+    throw new AIJSXError(
+      `${name} must be a whole number of at least 1, or Infinity, but got ${limit}.`,
+      ErrorCode.UseToolsBadInput,
+      'user',
+      { [name]: limit }
+    );
+  }
+}
+
+/**
+ * Counts the calls the AI makes, to check them against the limits set by {@link UseToolsProps}.
+ */
+function callLimiter({ maxCallsPerTool, maxIdenticalCalls = 3 }: UseToolsProps) {
+  const callsPerTool = new Map<string, number>();
+  const identicalCalls = new Map<string, number>();
+  const increment = (counts: Map<string, number>, key: string) => {
+    const count = (counts.get(key) ?? 0) + 1;
+    counts.set(key, count);
+    return count;
+  };
+
+  /** Counts the calls of one of the AI's responses, returning why they can't be made if they'd go over a limit. */
+  return function limitReached(calls: PropsOfComponent<typeof FunctionCall>[]) {
+    for (const { name, args } of calls) {
+      const maxCalls = typeof maxCallsPerTool === 'number' ? maxCallsPerTool : maxCallsPerTool?.[name];
+      if (maxCalls !== undefined && increment(callsPerTool, name) > maxCalls) {
+        return `the AI called ${name} more than ${maxCalls} times`;
+      }
+      if (increment(identicalCalls, JSON.stringify(normalize({ name, args }))) > maxIdenticalCalls) {
+        return `the AI called ${name} with the same arguments more than ${maxIdenticalCalls} times`;
+      }
+    }
+    return undefined;
+  };
+}
+
 /** @hidden */
 export async function* UseToolsFunctionCall(
   props: UseToolsProps,
@@ -225,9 +448,58 @@ export async function* UseToolsFunctionCall(
 ): RenderableStream {
   yield AppendOnlyStream;
 
+  const { maxIterations = 10, onLimitReached = 'finalAnswer', maxConcurrentToolCalls = Infinity } = props;
+  if (!(maxConcurrentToolCalls >= 1)) {
+    throw new AIJSXError(
+      `maxConcurrentToolCalls must be at least 1, but got ${maxConcurrentToolCalls}.`,
+      ErrorCode.UseToolsBadInput,
+      'user',
+      { maxConcurrentToolCalls }
+    );
+  }
+
+  checkLimit('maxIterations', maxIterations);
+  checkLimit('maxIdenticalCalls', props.maxIdenticalCalls);
+  if (typeof props.maxCallsPerTool === 'object') {
+    for (const [name, maxCalls] of Object.entries(props.maxCallsPerTool)) {
+      checkLimit(`maxCallsPerTool.${name}`, maxCalls);
+    }
+  } else {
+    checkLimit('maxCallsPerTool', props.maxCallsPerTool);
+  }
+
   const conversation = [memo(props.children)];
+  const limitReached = callLimiter(props);
+
+  /** Stops using tools because of `reason`, as `onLimitReached` says to. */
+  const stop = (reason: string): Node => {
+    logger.warn({ reason }, 'UseTools reached a limit on tool use');
+    switch (onLimitReached) {
+      case 'throw':
+        throw new AIJSXError(`UseTools stopped because ${reason}.`, ErrorCode.ToolUseLimitReached, 'runtime', {
+          reason,
+        });
+      case 'fallback':
+        return props.fallback;
+      case 'finalAnswer':
+        return (
+          <ChatCompletion>
+            {conversation}
+            <SystemMessage>
+              You can't call any more functions. Respond to the user as best you can with what you know so far.
+            </SystemMessage>
+          </ChatCompletion>
+        );
+    }
+  };
+
+  for (let iteration = 1; ; iteration++) {
+    if (iteration >= maxIterations && onLimitReached === 'finalAnswer') {
+      // This is the last time the AI may be called, so it has to answer without tools.
+      yield stop(`the AI may only be called ${maxIterations} times`);
+      break;
+    }
 
-  do {
     const modelResponse = memo(<ChatCompletion functionDefinitions={props.tools}>{conversation}</ChatCompletion>);
     if (props.showSteps) {
       yield modelResponse;
@@ -236,22 +508,16 @@ export async function* UseToolsFunctionCall(
     const renderResult = await render(modelResponse, {
       stop: (el) => el.tag === AssistantMessage || el.tag == FunctionCall,
     });
-    let functionCallElement: Element<any> | null = null;
+    const responseElements: Node[] = [];
+    const functionCallElements: Element<PropsOfComponent<typeof FunctionCall>>[] = [];
 
     for (const element of renderResult) {
       if (isElement(element)) {
-        conversation.push(memo(element));
+        responseElements.push(memo(element));
 
         if (element.tag === FunctionCall) {
           // Model has generated a function call.
-          if (functionCallElement) {
-            throw new AIJSXError(
-              `ChatCompletion returned 2 function calls at the same time ${renderResult.join(', ')}`,
-              ErrorCode.ModelOutputCouldNotBeParsedForTool,
-              'runtime'
-            );
-          }
-          functionCallElement = element;
+          functionCallElements.push(element);
         }
       } else {
         logger.debug(
@@ -261,17 +527,24 @@ export async function* UseToolsFunctionCall(
       }
     }
 
-    if (functionCallElement) {
-      // Call the selected function and append the result to the messages.
-      let response;
-      try {
-        const callable = props.tools[functionCallElement.props.name].func;
-        response = await callable(functionCallElement.props.args);
-      } catch (e: any) {
-        response = `Function call to ${functionCallElement.props.name} failed with error: ${e.message}.`;
-      } finally {
+    if (functionCallElements.length) {
+      const reason =
+        iteration >= maxIterations
+          ? `the AI was called ${maxIterations} times`
+          : limitReached(functionCallElements.map((element) => element.props));
+      if (reason) {
+        yield stop(reason);
+        break;
+      }
+      conversation.push(...responseElements);
+
+      // Call the selected functions and append the results to the messages, in the order they were called.
+      const responses = mapWithLimit(functionCallElements, maxConcurrentToolCalls, ({ props: call }) =>
+        callTool(props.tools, call)
+      );
+      for (const [i, response] of responses.entries()) {
         const functionResponse = memo(
-          <FunctionResponse name={functionCallElement.props.name}>{response}</FunctionResponse>
+          <FunctionResponse name={functionCallElements[i].props.name}>{await response}</FunctionResponse>
         );
         if (props.showSteps) {
           yield (
@@ -293,7 +566,7 @@ export async function* UseToolsFunctionCall(
       yield modelResponse;
     }
     break;
-  } while (true);
+  }
 
   return AppendOnlyStream;
 }
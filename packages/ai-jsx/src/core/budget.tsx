@@ -0,0 +1,89 @@
+/**
+ * This module provides the {@link Budget} component, which limits the tokens used by model calls and what they cost.
+ * @packageDocumentation
+ */
+
+import { Node } from '../index.js';
+import { BudgetExceededError } from './errors.js';
+import { ModelPrice, TrackUsage, UsageReport, UsageTracker, costOf, defaultModelPrices } from './usage.js';
+
+/**
+ * A {@link UsageTracker} that refuses, or stops, model calls that would exceed its limits.
+ */
+class BudgetTracker extends UsageTracker {
+  /** The calls that have started but not yet ended, whose usage isn't in `records` yet. */
+  private readonly callsInProgress = new Set<UsageReport>();
+
+  constructor(readonly maxTokens: number, readonly maxCostUsd: number, prices: Record<string, ModelPrice>) {
+    super(prices);
+  }
+
+  /** Throws if the recorded calls and those in progress have exceeded the budget. */
+  private checkBudget() {
+    let { totalTokens, costUsd } = this.totals;
+    for (const call of this.callsInProgress) {
+      totalTokens += call.promptTokens + call.completionTokens;
+      costUsd += costOf(call, this.prices) ?? 0;
+    }
+
+    if (totalTokens > this.maxTokens) {
+      throw new BudgetExceededError('maxTokens', this.maxTokens, totalTokens);
+    }
+    if (costUsd > this.maxCostUsd) {
+      throw new BudgetExceededError('maxCostUsd', this.maxCostUsd, costUsd);
+    }
+  }
+
+  startCall(call: UsageReport) {
+    this.callsInProgress.add(call);
+    this.checkBudget();
+  }
+
+  updateCall() {
+    this.checkBudget();
+  }
+
+  endCall(call: UsageReport, report: UsageReport | undefined) {
+    this.callsInProgress.delete(call);
+    super.endCall(call, report);
+  }
+}
+
+/**
+ * Limits the tokens used, and the money spent, by the model calls its children make. Once the budget is spent, model
+ * calls fail with a {@link BudgetExceededError}:
+ *
+ *  - Before each call, its prompt tokens are estimated, and the call is refused if they would exceed what remains of
+ *    the budget.
+ *  - As the response streams in, its tokens are counted, and the call is stopped once it exceeds the budget.
+ *
+ * This bounds the damage a runaway loop (e.g. a `UseTools` that keeps calling tools) can do.
+ *
+ * Token counts are estimated locally unless the model reports them, so calls may use slightly more or fewer tokens
+ * than the budget allows. Calls to models without a price count towards `maxTokens`, but not `maxCostUsd`.
+ *
+ * @example
+ * ```tsx
+ *  <Budget maxTokens={10_000} maxCostUsd={0.5}>
+ *    <UseTools tools={tools}>
+ *      <UserMessage>{query}</UserMessage>
+ *    </UseTools>
+ *  </Budget>
+ * ```
+ */
+export function Budget({
+  children,
+  maxTokens = Infinity,
+  maxCostUsd = Infinity,
+  prices = defaultModelPrices,
+}: {
+  children: Node;
+  /** The maximum number of tokens (prompt and completion tokens combined) that model calls may use. */
+  maxTokens?: number;
+  /** The maximum that model calls may cost, in US dollars. */
+  maxCostUsd?: number;
+  /** The price table used to calculate costs. */
+  prices?: Record<string, ModelPrice>;
+}) {
+  return <TrackUsage tracker={new BudgetTracker(maxTokens, maxCostUsd, prices)}>{children}</TrackUsage>;
+}
@@ -0,0 +1,206 @@
+/**
+ * This module provides a way to cache rendered output across renders, e.g. to avoid re-running an expensive subtree
+ * on every request.
+ * @packageDocumentation
+ */
+
+import * as AI from '../index.js';
+import { ComponentContext, Node } from '../index.js';
+import { Jsonifiable } from 'type-fest';
+import { isMemoizedSymbol } from './memoize.js';
+import { hash, normalize } from '../lib/util.js';
+
+/**
+ * A cached rendering.
+ */
+export interface CacheEntry {
+  /** The rendered output, in the chunks it originally streamed in. */
+  chunks: string[];
+  /** When the entry expires, in milliseconds since the Unix epoch, or `null` if it doesn't. */
+  expiresAt: number | null;
+}
+
+/**
+ * Stores {@link CacheEntry}s for {@link Cache}. Implement this to cache renderings somewhere other than the built-in
+ * {@link MemoryCacheStore} or `FileCacheStore`.
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * A {@link CacheStore} that keeps entries in memory, evicting the least recently used entries once it has more than
+ * `maxEntries`.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(readonly maxEntries: number = 1000) {}
+
+  get(key: string) {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Maps iterate in insertion order, so re-inserting the entry marks it as the most recently used.
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return Promise.resolve(entry);
+  }
+
+  set(key: string, entry: CacheEntry) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    for (const oldestKey of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(oldestKey);
+    }
+    return Promise.resolve();
+  }
+
+  delete(key: string) {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+}
+
+/** The store used by {@link Cache} when none is provided. */
+const defaultStore = new MemoryCacheStore();
+
+/** The ids of the components in cached children, since different components can have the same name. */
+const componentIds = new WeakMap<AI.Component<any>, string>();
+let componentCount = 0;
+
+/**
+ * Makes component ids unique to this process, since another process (sharing a persistent store) may give the same
+ * `name#count` id to a different component.
+ */
+const processNonce = Math.random().toString(36).slice(2);
+
+function componentId(component: AI.Component<any>) {
+  let id = componentIds.get(component);
+  if (id === undefined) {
+    id = `${component.name}#${componentCount++}@${processNonce}`;
+    componentIds.set(component, id);
+  }
+  return id;
+}
+
+/**
+ * Describes a {@link Node} such that nodes that would render identically have the same description, or returns
+ * `undefined` if it can't be described. That's the case if it has functions in its props (other than components),
+ * since there's no telling what they do.
+ */
+function describe(node: unknown): Jsonifiable | undefined {
+  if (AI.isIndirectNode(node)) {
+    return describe(AI.getReferencedNode(node));
+  }
+  if (AI.isElement(node)) {
+    if (isMemoizedSymbol in node.props) {
+      // Memoized elements wrap the original element, if there is one. (Their ids differ from render to render.)
+      return 'children' in node.props ? describe(node.props.children) : componentId(node.tag);
+    }
+    const props = describe(node.props);
+    return props === undefined ? undefined : [componentId(node.tag), props];
+  }
+  if (Array.isArray(node)) {
+    const items = node.map(describe);
+    return items.includes(undefined) ? undefined : (items as Jsonifiable[]);
+  }
+  if (typeof node === 'function') {
+    return undefined;
+  }
+  if (typeof node === 'object' && node !== null) {
+    const entries = Object.entries(node).map(([key, value]) => [key, describe(value)] as const);
+    return entries.some(([, value]) => value === undefined) ? undefined : normalize(Object.fromEntries(entries));
+  }
+  return node === undefined ? null : (node as Jsonifiable);
+}
+
+/**
+ * Caches the rendered output of its children in a {@link CacheStore}, so that later renders (in any
+ * `RenderContext`) replay the cached output instead of rendering the children again. Cached output streams in the
+ * same chunks as it originally did.
+ *
+ * By default, entries are keyed by a hash of the children: their components, props and text. If rendering the
+ * children depends on anything else (such as context values, or state that a component reads), pass a `key` that
+ * identifies it. A `key` is also needed to cache children with functions in their props (such as callbacks), and
+ * to share entries between processes (e.g. through a `FileCacheStore`): components are only told apart within a
+ * process, so entries keyed by the children are never found by another process (or after a restart).
+ *
+ * Cache hits and misses are logged at the `debug` level.
+ *
+ * @example
+ * ```tsx
+ *  <Cache ttl={60 * 60 * 1000}>
+ *    <ChatCompletion>
+ *      <UserMessage>Summarize this document: {document}</UserMessage>
+ *    </ChatCompletion>
+ *  </Cache>
+ * ```
+ *
+ * @note Only the text of the children is cached, so elements that are meant to be rendered by the caller (such as
+ * React components in UI apps) are not preserved.
+ */
+export async function* Cache(
+  {
+    children,
+    key,
+    ttl,
+    store = defaultStore,
+  }: {
+    children: Node;
+    /** Identifies the cached output. If not provided, a hash of `children` is used. */
+    key?: string;
+    /** How long (in milliseconds) the cached output may be used for. If not provided, it doesn't expire. */
+    ttl?: number;
+    /** Where to cache the output. If not provided, an in-memory store shared by all `Cache`s is used. */
+    store?: CacheStore;
+  },
+  { render, logger }: ComponentContext
+): AI.RenderableStream {
+  const description = key === undefined ? describe(children) : null;
+  if (description === undefined) {
+    logger.debug("Not caching children with functions in their props, since they can't be keyed without a `key`");
+    return children;
+  }
+
+  yield AI.AppendOnlyStream;
+
+  const cacheKey = hash(key === undefined ? JSON.stringify(description) : `key:${key}`);
+  const entry = await store.get(cacheKey);
+  if (entry && (entry.expiresAt === null || entry.expiresAt > Date.now())) {
+    logger.debug({ cacheKey, key }, 'Cache hit');
+    for (const chunk of entry.chunks) {
+      yield chunk;
+    }
+    return AI.AppendOnlyStream;
+  }
+
+  logger.debug({ cacheKey, key, expired: entry !== undefined }, 'Cache miss');
+  if (entry) {
+    await store.delete(cacheKey);
+  }
+
+  const chunks = [] as string[];
+  let rendered = '';
+  const renderResult = render(children, { appendOnly: true });
+  for await (const frame of renderResult) {
+    if (frame.length > rendered.length) {
+      chunks.push(frame.slice(rendered.length));
+      rendered = frame;
+      yield chunks[chunks.length - 1];
+    }
+  }
+  const final = await renderResult;
+  if (final.length > rendered.length) {
+    chunks.push(final.slice(rendered.length));
+    yield chunks[chunks.length - 1];
+  }
+
+  await store.set(cacheKey, { chunks, expiresAt: ttl === undefined ? null : Date.now() + ttl });
+  return AI.AppendOnlyStream;
+}
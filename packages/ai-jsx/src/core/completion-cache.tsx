@@ -0,0 +1,250 @@
+/**
+ * This module provides a cache for model responses, to avoid paying for identical model calls more than once.
+ * @packageDocumentation
+ */
+
+import * as AI from '../index.js';
+import { ComponentContext, Node, PropsOfComponent } from '../index.js';
+import {
+  AssistantMessage,
+  FunctionCall,
+  FunctionDefinition,
+  ModelComponent,
+  ModelProps,
+  ModelPropsWithChildren,
+  chatContext,
+  completionContext,
+  getParametersSchema,
+  renderChatMessages,
+} from './completion.js';
+import { CacheStore, MemoryCacheStore } from './cache.js';
+import { hash, normalize } from '../lib/util.js';
+
+/**
+ * A part of a cached chat model response. Each is stored as a JSON-encoded chunk of a `CacheEntry`.
+ */
+type CachedResponsePart =
+  | { role: 'assistant'; chunks: string[] }
+  | { role: 'functionCall'; name: string; args: PropsOfComponent<typeof FunctionCall>['args'] }
+  | { role: 'text'; content: string };
+
+/** The props that determine a model's response, in addition to its prompt. */
+const keyedProps = [
+  'model',
+  'temperature',
+  'maxTokens',
+  'stop',
+  'topP',
+  'logitBias',
+  'logitBiasMultiToken',
+  'logitBiasTokenIds',
+  'forcedFunction',
+];
+
+/** The store used by {@link CompletionCache} when none is provided. */
+const defaultStore = new MemoryCacheStore();
+
+type CacheableModelProps = ModelPropsWithChildren & { functionDefinitions?: Record<string, FunctionDefinition> };
+
+interface CacheOptions {
+  store: CacheStore;
+  ttl: number | undefined;
+  alwaysCache: boolean;
+}
+
+/**
+ * Whether a model call should be cached. Models sample with a nonzero temperature by default, so an unspecified
+ * temperature counts as one.
+ */
+function isCacheable(props: ModelProps, { alwaysCache }: CacheOptions) {
+  return alwaysCache || (typeof props.temperature === 'number' && props.temperature <= 0);
+}
+
+/**
+ * Gets a cache key for a model call.
+ */
+function cacheKey(Model: ModelComponent<any>, props: Omit<CacheableModelProps, 'children'>, prompt: unknown) {
+  const { functionDefinitions } = props;
+  return hash(
+    JSON.stringify(
+      normalize({
+        model: Model.name,
+        prompt,
+        props: Object.fromEntries(keyedProps.map((key) => [key, (props as Record<string, unknown>)[key]])),
+        functions:
+          functionDefinitions &&
+          Object.entries(functionDefinitions).map(([name, { description, parameters }]) => ({
+            name,
+            description,
+            parameters: getParametersSchema(parameters),
+          })),
+      })
+    )
+  );
+}
+
+/** Records the chunks an append-only render streams in. */
+async function recordChunks(renderable: Node, render: ComponentContext['render']) {
+  const chunks = [] as string[];
+  let rendered = '';
+  const renderResult = render(renderable, { appendOnly: true });
+  for await (const frame of renderResult) {
+    if (frame.length > rendered.length) {
+      chunks.push(frame.slice(rendered.length));
+      rendered = frame;
+    }
+  }
+  const final = await renderResult;
+  if (final.length > rendered.length) {
+    chunks.push(final.slice(rendered.length));
+  }
+  return chunks;
+}
+
+async function* streamChunks(chunks: string[]): AI.RenderableStream {
+  yield AI.AppendOnlyStream;
+  for (const chunk of chunks) {
+    yield chunk;
+  }
+  return AI.AppendOnlyStream;
+}
+
+function cachedChatModel(Model: ModelComponent<any>, options: CacheOptions) {
+  return async function* CachedChatModel(
+    { children, ...props }: CacheableModelProps,
+    { render, memo, logger }: ComponentContext
+  ): AI.RenderableStream {
+    if (!isCacheable(props, options)) {
+      logger.debug({ temperature: props.temperature }, 'Not caching a sampled model call');
+      return <Model {...props}>{children}</Model>;
+    }
+
+    yield AI.AppendOnlyStream;
+
+    // The messages are rendered both for the key and by the model, so make sure they only render once.
+    const messages = memo(children);
+    const key = cacheKey(Model, props, await renderChatMessages(messages, render));
+    const entry = await options.store.get(key);
+    if (entry && (entry.expiresAt === null || entry.expiresAt > Date.now())) {
+      logger.debug({ cacheKey: key }, 'Cache hit');
+      for (const part of entry.chunks.map((chunk) => JSON.parse(chunk) as CachedResponsePart)) {
+        switch (part.role) {
+          case 'assistant':
+            yield <AssistantMessage>{memo(streamChunks(part.chunks))}</AssistantMessage>;
+            break;
+          case 'functionCall':
+            yield <FunctionCall name={part.name} args={part.args} />;
+            break;
+          case 'text':
+            yield part.content;
+            break;
+        }
+      }
+      return AI.AppendOnlyStream;
+    }
+    logger.debug({ cacheKey: key, expired: entry !== undefined }, 'Cache miss');
+
+    // Stream the response as-is, then record it. (It's memoized, so the model is only called once.)
+    const response = memo(<Model {...props}>{messages}</Model>);
+    yield response;
+
+    const parts = await render(response, { stop: (e) => e.tag === AssistantMessage || e.tag === FunctionCall });
+    const chunks = await Promise.all(
+      parts.map(async (part): Promise<CachedResponsePart> => {
+        if (typeof part === 'string') {
+          return { role: 'text', content: part };
+        }
+        if (part.tag === FunctionCall) {
+          const { name, args } = part.props as PropsOfComponent<typeof FunctionCall>;
+          return { role: 'functionCall', name, args };
+        }
+        return { role: 'assistant', chunks: await recordChunks(part, render) };
+      })
+    );
+    await options.store.set(key, {
+      chunks: chunks.map((chunk) => JSON.stringify(chunk)),
+      expiresAt: options.ttl === undefined ? null : Date.now() + options.ttl,
+    });
+    return AI.AppendOnlyStream;
+  };
+}
+
+function cachedCompletionModel(Model: ModelComponent<any>, options: CacheOptions) {
+  return async function* CachedCompletionModel(
+    { children, ...props }: CacheableModelProps,
+    { render, memo, logger }: ComponentContext
+  ): AI.RenderableStream {
+    if (!isCacheable(props, options)) {
+      logger.debug({ temperature: props.temperature }, 'Not caching a sampled model call');
+      return <Model {...props}>{children}</Model>;
+    }
+
+    yield AI.AppendOnlyStream;
+
+    const prompt = memo(children);
+    const key = cacheKey(Model, props, await render(prompt));
+    const entry = await options.store.get(key);
+    if (entry && (entry.expiresAt === null || entry.expiresAt > Date.now())) {
+      logger.debug({ cacheKey: key }, 'Cache hit');
+      return yield* streamChunks(entry.chunks);
+    }
+    logger.debug({ cacheKey: key, expired: entry !== undefined }, 'Cache miss');
+
+    const response = memo(<Model {...props}>{prompt}</Model>);
+    yield response;
+    await options.store.set(key, {
+      chunks: await recordChunks(response, render),
+      expiresAt: options.ttl === undefined ? null : Date.now() + options.ttl,
+    });
+    return AI.AppendOnlyStream;
+  };
+}
+
+/**
+ * Caches the responses of the chat and completion models used by {@link ChatCompletion}s and {@link Completion}s
+ * within it, whichever models those are (as set by `ChatProvider` and `CompletionProvider`). Cached responses stream
+ * in the same chunks as they originally did, and include any `FunctionCall`s.
+ *
+ * Responses are keyed by the messages (or prompt) sent to the model and the props that affect its response, like
+ * `temperature`, `stop` and `functionDefinitions`. Since a model sampled with a nonzero temperature is meant to
+ * respond differently each time, only calls with `temperature={0}` are cached, unless `alwaysCache` is set.
+ *
+ * Cache hits and misses are logged at the `debug` level.
+ *
+ * @example
+ * ```tsx
+ *  <CompletionCache store={new FileCacheStore('.cache/completions')}>
+ *    <ChatCompletion temperature={0}>
+ *      <UserMessage>Summarize this document: {document}</UserMessage>
+ *    </ChatCompletion>
+ *  </CompletionCache>
+ * ```
+ */
+export function CompletionCache(
+  {
+    children,
+    store = defaultStore,
+    ttl,
+    alwaysCache = false,
+  }: {
+    children: Node;
+    /** Where to cache responses. If not provided, an in-memory store shared by all `CompletionCache`s is used. */
+    store?: CacheStore;
+    /** How long (in milliseconds) cached responses may be used for. If not provided, they don't expire. */
+    ttl?: number;
+    /** Whether to cache responses of models sampled with a nonzero temperature. */
+    alwaysCache?: boolean;
+  },
+  { getContext }: ComponentContext
+) {
+  const options = { store, ttl, alwaysCache };
+  const [ChatModel, chatDefaults] = getContext(chatContext);
+  const [CompletionModel, completionDefaults] = getContext(completionContext);
+  return (
+    <chatContext.Provider value={[cachedChatModel(ChatModel, options), chatDefaults]}>
+      <completionContext.Provider value={[cachedCompletionModel(CompletionModel, options), completionDefaults]}>
+        {children}
+      </completionContext.Provider>
+    </chatContext.Provider>
+  );
+}
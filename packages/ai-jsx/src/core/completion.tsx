@@ -5,11 +5,13 @@
 
 import { ChatCompletionResponseMessage } from 'openai';
 import * as AI from '../index.js';
-import { Node, Component, RenderContext } from '../index.js';
+import { Node, Component, RenderContext, PropsOfComponent } from '../index.js';
 import { AIJSXError, ErrorCode } from '../core/errors.js';
 import { OpenAIChatModel, OpenAICompletionModel } from '../lib/openai.js';
 import { getEnvVar } from '../lib/util.js';
 import { AnthropicChatModel } from '../lib/anthropic.js';
+import { containsShrinkable, contextWindowForModel, defaultReplyTokens, shrinkToFit } from './shrinkable.js';
+import { tokenizerForModel } from './tokenizer.js';
 import z from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 
@@ -29,6 +31,13 @@ export interface ModelProps {
    *
    * @see https://platform.openai.com/docs/api-reference/chat/create#chat/create-top_p */
   topP?: number;
+
+  /**
+   * The size of the model's context window, in tokens, which `ChatCompletion` shrinks prompts to fit. If unspecified,
+   * it's looked up from the `model` prop (see {@link contextWindowForModel}), and if it's unknown, prompts aren't
+   * shrunk.
+   */
+  contextWindow?: number;
 }
 
 /**
@@ -162,11 +171,14 @@ function AutomaticChatModel({ children, ...props }: ModelPropsWithChildren) {
   );
 }
 
-/** The default context used by {@link CompletionProvider}. */
-const completionContext = AI.createContext<[ModelComponent<ModelPropsWithChildren>, ModelProps]>([
-  AutomaticCompletionModel,
-  {},
-]);
+/**
+ * The default context used by {@link CompletionProvider}.
+ * @hidden
+ */
+export const completionContext = AI.createContext<[ModelComponent<ModelPropsWithChildren>, ModelProps]>(
+  [AutomaticCompletionModel, {}],
+  'CompletionProvider'
+);
 
 /**
  * A CompletionProvider is used by {@link ChatCompletion} to access an underlying Large Language Model.
@@ -188,8 +200,14 @@ export function CompletionProvider<T extends ModelPropsWithChildren>(
   );
 }
 
-/** The default context used by {@link ChatProvider}. */
-const chatContext = AI.createContext<[ModelComponent<ModelPropsWithChildren>, ModelProps]>([AutomaticChatModel, {}]);
+/**
+ * The default context used by {@link ChatProvider}.
+ * @hidden
+ */
+export const chatContext = AI.createContext<[ModelComponent<ModelPropsWithChildren>, ModelProps]>(
+  [AutomaticChatModel, {}],
+  'ChatProvider'
+);
 
 /**
  * A ChatProvider is used by {@link ChatCompletion} to access an underlying Large Language Model.
@@ -335,6 +353,57 @@ export async function FunctionResponse(
   return `function ${name} returns ${output}`;
 }
 
+/**
+ * A message in a {@link ChatCompletion}'s conversation, with its content rendered to text.
+ */
+export type RenderedChatMessage =
+  | { role: 'system' | 'assistant'; content: string }
+  | { role: 'user'; content: string; name?: string }
+  | { role: 'functionCall'; name: string; args: PropsOfComponent<typeof FunctionCall>['args'] }
+  | { role: 'functionResponse'; name: string; content: string };
+
+/**
+ * Renders the children of a {@link ChatCompletion} to {@link RenderedChatMessage}s.
+ * @hidden
+ */
+export async function renderChatMessages(children: Node, render: RenderContext['render']) {
+  const messageElements = await render(children, {
+    stop: (e) =>
+      e.tag == SystemMessage ||
+      e.tag == UserMessage ||
+      e.tag == AssistantMessage ||
+      e.tag == FunctionCall ||
+      e.tag == FunctionResponse,
+  });
+
+  return Promise.all(
+    messageElements.filter(AI.isElement).map(async (message): Promise<RenderedChatMessage> => {
+      switch (message.tag) {
+        case SystemMessage:
+          return { role: 'system', content: await render(message) };
+        case UserMessage:
+          return {
+            role: 'user',
+            content: await render(message),
+            name: (message.props as PropsOfComponent<typeof UserMessage>).name,
+          };
+        case AssistantMessage:
+          return { role: 'assistant', content: await render(message) };
+        case FunctionCall:
+          return { role: 'functionCall', name: message.props.name, args: message.props.args };
+        case FunctionResponse:
+          return { role: 'functionResponse', name: message.props.name, content: await render(message.props.children) };
+        default:
+          throw new AIJSXError(
+            `ChatCompletion's prompts must be SystemMessage, UserMessage, AssistantMessage, FunctionCall, or FunctionResponse but this child was ${message.tag.name}`,
+            ErrorCode.ChatCompletionUnexpectedChild,
+            'internal'
+          );
+      }
+    })
+  );
+}
+
 /**
  * Perform a Large Language Mokdel call to do a [completion](https://platform.openai.com/docs/guides/gpt/completions-api).
  *
@@ -366,6 +435,8 @@ export function Completion(
  *
  * Every child of {@link ChatCompletion} must something that renders to a {@link SystemMessage}, {@link UserMessage}, or {@link AssistantMessage}.
  *
+ * If the prompt has `Shrinkable`s and doesn't leave room for `maxTokens` in the model's context window, they're shrunk until it does. (See `ai-jsx/core/shrinkable`.)
+ *
  * @example
  * ```tsx
  *    function MyUserMessage() {
@@ -378,14 +449,28 @@ export function Completion(
  *    </ChatCompletion>
  * ```
  */
-export function ChatCompletion(
+export async function ChatCompletion(
   { children, ...props }: ModelPropsWithChildren & Record<string, unknown>,
-  { getContext }: RenderContext
+  { getContext, render, logger }: AI.ComponentContext
 ) {
   const [ChatComponent, defaultProps] = getContext(chatContext);
-  return (
-    <ChatComponent {...defaultProps} {...props}>
-      {children}
-    </ChatComponent>
-  );
+  const modelProps: ModelProps & Record<string, unknown> = { ...defaultProps, ...props };
+  const model = typeof modelProps.model === 'string' ? modelProps.model : '';
+  const contextWindow = modelProps.contextWindow ?? contextWindowForModel(model);
+
+  // The prompt is fit to the context window here, so that every chat model gets one that fits. Prompts that can't be
+  // shrunk are left as they are.
+  const prompt =
+    contextWindow === undefined || !containsShrinkable(children)
+      ? children
+      : await shrinkToFit(
+          children,
+          {
+            tokenLimit: contextWindow - (modelProps.maxTokens ?? defaultReplyTokens),
+            tokenizer: tokenizerForModel(model),
+            functionDefinitions: modelProps.functionDefinitions as Record<string, FunctionDefinition> | undefined,
+          },
+          { render, logger }
+        );
+  return <ChatComponent {...modelProps}>{prompt}</ChatComponent>;
 }
@@ -0,0 +1,137 @@
+/**
+ * This module provides components for bounding how many model calls run at once.
+ * @packageDocumentation
+ */
+
+import {
+  AbortSignalContext,
+  ComponentContext,
+  Node,
+  RenderContext,
+  abortError,
+  createContext,
+  onAbort,
+} from '../index.js';
+import { AIJSXError, ErrorCode } from './errors.js';
+
+/**
+ * A counting semaphore with a FIFO queue of waiters.
+ */
+class ConcurrencyPool {
+  private active = 0;
+  private readonly waiters: (() => void)[] = [];
+
+  constructor(readonly max: number) {}
+
+  acquire(signal: AbortSignal): Promise<() => void> {
+    if (signal.aborted) {
+      return Promise.reject(abortError(signal));
+    }
+
+    if (this.active < this.max) {
+      this.active++;
+      return Promise.resolve(this.releaser());
+    }
+
+    return new Promise((resolve, reject) => {
+      let unregister = () => {};
+      const onAvailable = () => {
+        unregister();
+        this.active++;
+        resolve(this.releaser());
+      };
+      unregister = onAbort(signal, () => {
+        this.waiters.splice(this.waiters.indexOf(onAvailable), 1);
+        reject(abortError(signal));
+      });
+
+      this.waiters.push(onAvailable);
+    });
+  }
+
+  private releaser() {
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.active--;
+      this.waiters.shift()?.();
+    };
+  }
+}
+
+/**
+ * The key of the pool that applies to every model call, regardless of provider.
+ */
+const allProvidersKey = '*';
+
+/** @hidden */
+export const ConcurrencyLimitContext = createContext<Record<string, ConcurrencyPool>>({}, 'ConcurrencyLimit');
+
+/**
+ * Bounds the number of concurrent model calls made by its children. Calls beyond the limit are queued
+ * until an earlier call finishes streaming.
+ *
+ * `max` must be a positive whole number. If `key` is provided, only calls to that provider (`"openai"`, `"anthropic"` or `"replicate"`) count
+ * against the limit; otherwise, all model calls do. Limits for different keys are independent pools, and a
+ * nested `ConcurrencyLimit` with the same key replaces the outer one for its children.
+ *
+ * @example
+ * ```tsx
+ *  <ConcurrencyLimit max={5} key="openai">
+ *    {documents.map((document) => (
+ *      <ChatCompletion>
+ *        <UserMessage>Summarize this document: {document}</UserMessage>
+ *      </ChatCompletion>
+ *    ))}
+ *  </ConcurrencyLimit>
+ * ```
+ */
+export function ConcurrencyLimit(
+  { max, key, children }: { max: number; key?: string; children: Node },
+  { getContext }: ComponentContext
+) {
+  if (!Number.isInteger(max) || max < 1) {
+    throw new AIJSXError(
+      `ConcurrencyLimit needs a positive whole number for max, but got ${max}.`,
+      ErrorCode.ConcurrencyLimitBadInput,
+      'user'
+    );
+  }
+
+  const pools = { ...getContext(ConcurrencyLimitContext), [key ?? allProvidersKey]: new ConcurrencyPool(max) };
+  return <ConcurrencyLimitContext.Provider value={pools}>{children}</ConcurrencyLimitContext.Provider>;
+}
+
+/**
+ * Waits until a call to `key` is permitted by the enclosing {@link ConcurrencyLimit}s and returns a function
+ * that must be called once the call has finished. If there are no applicable limits, this resolves immediately.
+ *
+ * The built-in model components call this before making requests. Components that call other
+ * services can use it to participate in the same limits.
+ */
+export async function acquireConcurrencySlot(
+  key: string,
+  { getContext }: Pick<RenderContext, 'getContext'>
+): Promise<() => void> {
+  const pools = getContext(ConcurrencyLimitContext);
+  const signal = getContext(AbortSignalContext);
+  const releases = [] as (() => void)[];
+  const release = () => releases.forEach((r) => r());
+
+  try {
+    // Pools are always acquired in the same order (provider-specific, then global) so that they can't deadlock.
+    for (const poolKey of new Set([key, allProvidersKey])) {
+      if (poolKey in pools) {
+        releases.push(await pools[poolKey].acquire(signal));
+      }
+    }
+  } catch (ex) {
+    release();
+    throw ex;
+  }
+
+  return release;
+}
@@ -0,0 +1,89 @@
+/**
+ * This module provides components for bounding how long rendering may take.
+ * @packageDocumentation
+ */
+
+import { ComponentContext, DeadlineContext, Node, RenderContext, onAbort } from '../index.js';
+import { DeadlineExceededError } from './errors.js';
+
+/**
+ * Gets the number of milliseconds remaining before the closest enclosing deadline (set by {@link Deadline}
+ * or by `createRenderContext`) expires. Returns `Infinity` if there is no deadline.
+ *
+ * Components that make their own requests can use this to derive request timeouts.
+ */
+export function getRemainingTime({ getContext }: Pick<RenderContext, 'getContext'>): number {
+  return getContext(DeadlineContext) - Date.now();
+}
+
+/**
+ * Gets an `AbortSignal` for a request made by a component, which is aborted when `signal` is or, with a
+ * {@link DeadlineExceededError}, once the closest enclosing deadline passes. This gives requests a timeout derived
+ * from the deadline, for clients that don't take one of their own.
+ *
+ * @returns The signal, and a function to call once the request is done, to stop its timeout.
+ */
+export function requestTimeout(
+  signal: AbortSignal,
+  { getContext }: Pick<RenderContext, 'getContext'>
+): { signal: AbortSignal; clear: () => void } {
+  const remainingTime = getRemainingTime({ getContext });
+  if (!Number.isFinite(remainingTime)) {
+    return { signal, clear: () => {} };
+  }
+
+  const timeoutMs = Math.max(1, Math.ceil(remainingTime));
+  const abortController = new AbortController();
+  const timer = setTimeout(() => abortController.abort(new DeadlineExceededError(timeoutMs)), timeoutMs);
+  const unregister = onAbort(signal, () => abortController.abort(signal.reason));
+  if (signal.aborted) {
+    abortController.abort(signal.reason);
+  }
+  return {
+    signal: abortController.signal,
+    clear: () => {
+      clearTimeout(timer);
+      unregister();
+    },
+  };
+}
+
+/**
+ * Bounds the time its children may take to render. If they haven't finished rendering after `ms` milliseconds,
+ * any in-flight work (including model calls) is aborted and `fallback` is rendered instead. If no `fallback`
+ * is provided, a {@link DeadlineExceededError} is thrown.
+ *
+ * Deadlines nest: children observe the closest deadline, so an inner `Deadline` can't extend an outer one.
+ *
+ * @example
+ * ```tsx
+ *  <Deadline ms={5000} fallback="Sorry, that took too long.">
+ *    <ChatCompletion>
+ *      <UserMessage>Write me a long story.</UserMessage>
+ *    </ChatCompletion>
+ *  </Deadline>
+ * ```
+ */
+export async function* Deadline(
+  props: { ms: number; children: Node; fallback?: Node | ((error: DeadlineExceededError) => Node) },
+  { render, getContext }: ComponentContext
+) {
+  const deadline = Math.min(getContext(DeadlineContext), Date.now() + props.ms);
+  const error = new DeadlineExceededError(props.ms);
+  const abortController = new AbortController();
+  const timer = setTimeout(() => abortController.abort(error), deadline - Date.now());
+
+  try {
+    return yield* render(<DeadlineContext.Provider value={deadline}>{props.children}</DeadlineContext.Provider>, {
+      signal: abortController.signal,
+    });
+  } catch (ex) {
+    // Only handle our own deadline; enclosing deadlines are handled by their own `Deadline` components.
+    if (ex !== error || props.fallback === undefined) {
+      throw ex;
+    }
+    return typeof props.fallback === 'function' ? props.fallback(error) : props.fallback;
+  } finally {
+    clearTimeout(timer);
+  }
+}
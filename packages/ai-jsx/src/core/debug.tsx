@@ -5,7 +5,7 @@
  */
 
 import * as AI from '../index.js';
-import { Element, ElementPredicate, Node, RenderContext } from '../index.js';
+import { Element, ElementPredicate, Node, ProvenanceSpan, RenderContext, RenderedWithProvenance } from '../index.js';
 import { isMemoizedSymbol } from './memoize.js';
 
 const maxStringLength = 1000;
@@ -136,6 +136,56 @@ export function debug(value: unknown, expandJSXChildren: boolean = true): string
   return debugRec(value, '', 'code');
 }
 
+/**
+ * Formats the result of rendering with `provenance: true` as markup showing which elements produced each part
+ * of the text.
+ *
+ * @param include Which spans to show. By default, all spans except those of fragments are shown.
+ *
+ * @example
+ * ```tsx
+ *    debugProvenance(await render(<Greeting name="Sam" />, { provenance: true }))
+ *
+ * ==>
+ *  <Greeting>Hello, <Name>Sam</Name>!</Greeting>
+ * ```
+ */
+export function debugProvenance(
+  { text, spans }: RenderedWithProvenance,
+  include: (span: ProvenanceSpan) => boolean = (span) => span.tag !== AI.Fragment.name
+): string {
+  let result = '';
+  let offset = 0;
+  const openSpans: ProvenanceSpan[] = [];
+
+  const advanceTo = (position: number) => {
+    result += text.slice(offset, position);
+    offset = position;
+  };
+  const closeSpansEndingBy = (position: number) => {
+    while (openSpans.length > 0) {
+      const span = openSpans[openSpans.length - 1];
+      if (span.end > position) {
+        break;
+      }
+      openSpans.pop();
+      advanceTo(span.end);
+      result += `</${span.tag}>`;
+    }
+  };
+
+  for (const span of spans.filter(include)) {
+    closeSpansEndingBy(span.start);
+    advanceTo(span.start);
+    result += `<${span.tag}>`;
+    openSpans.push(span);
+  }
+  closeSpansEndingBy(text.length);
+  advanceTo(text.length);
+
+  return result;
+}
+
 /**
  * Render a tree of JSX elements as a string, yielding each step of the rendering process.
  *
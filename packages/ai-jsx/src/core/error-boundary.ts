@@ -1,4 +1,13 @@
-import { Node, RenderContext } from '../index.js';
+import {
+  Element,
+  Node,
+  PartiallyRendered,
+  RenderContext,
+  StreamRenderer,
+  createElement,
+  isElement,
+  withContext,
+} from '../index.js';
 
 /**
  * Handle errors. If any child throws an error, the ErrorBoundary will show its `fallback` value instead.
@@ -15,6 +24,8 @@ import { Node, RenderContext } from '../index.js';
  * instruct the model what to do in the case of failure.
  *
  * This is inspired by https://react.dev/reference/react/Component#catching-rendering-errors-with-an-error-boundary.
+ *
+ * @see {@link StreamingErrorBoundary} to stream (and partially render) through the boundary.
  */
 export async function* ErrorBoundary(
   props: { children: Node; fallback: Node | ((error: unknown) => Node) },
@@ -28,3 +39,110 @@ export async function* ErrorBoundary(
     return typeof props.fallback === 'function' ? props.fallback(ex) : props.fallback;
   }
 }
+
+/**
+ * Maps each frame (including the final one) of a render, tearing the render down if the consumer stops early.
+ */
+async function* mapFrames(
+  frames: AsyncGenerator<PartiallyRendered[], PartiallyRendered[]>,
+  map: (frame: PartiallyRendered[]) => PartiallyRendered[]
+): AsyncGenerator<PartiallyRendered[], PartiallyRendered[]> {
+  let isDone = false;
+  try {
+    while (true) {
+      const next = await frames.next();
+      isDone = Boolean(next.done);
+      if (next.done) {
+        return map(next.value);
+      }
+      yield map(next.value);
+    }
+  } finally {
+    if (!isDone) {
+      frames.return([]).catch(() => {});
+    }
+  }
+}
+
+/**
+ * Like {@link ErrorBoundary}, but streaming through the boundary works like it does without one:
+ *
+ *  * Partial rendering (with `stop`) renders through the boundary, so, for instance, `ChatCompletion` finds the
+ *    messages inside it.
+ *  * Append-only renders stream the children's output as it arrives, including that of `AppendOnlyStream`s.
+ *
+ * If any child throws an error, the `fallback` is shown instead. A `fallback` function receives the text the children
+ * had rendered before the error (excluding any elements selected by `stop`), so that it can salvage it. Append-only
+ * renders can't retract output that has already streamed, so there the fallback is shown _after_ the partial output.
+ *
+ * @example
+ * ```tsx
+ *  <StreamingErrorBoundary fallback={(error, partialOutput) => `${partialOutput}… (The response was cut short.)`}>
+ *    <ChatCompletion>
+ *      <UserMessage>Write me a poem.</UserMessage>
+ *    </ChatCompletion>
+ *  </StreamingErrorBoundary>
+ * ```
+ *
+ * @note Elements selected by `stop` are rendered later, by whoever requested the partial render, so errors they throw
+ * aren't handled by the boundary.
+ */
+export function StreamingErrorBoundary(
+  props: { children: Node; fallback: Node | ((error: unknown, partialOutput: string) => Node) },
+  context: RenderContext
+) {
+  return catchRenderErrors(
+    props.children,
+    (error, partial) => {
+      const partialOutput = partial.filter((e): e is string => typeof e === 'string').join('');
+      return typeof props.fallback === 'function' ? props.fallback(error, partialOutput) : props.fallback;
+    },
+    context
+  );
+}
+
+/**
+ * Creates an element that renders `children` with the options (`stop`, append-only and provenance) the element itself
+ * is rendered with. If they throw an error, `onError` is called with the error and the last frame they rendered, and
+ * whatever it returns is rendered in their place (or, for append-only renders, after that frame).
+ *
+ * @hidden
+ */
+export function catchRenderErrors(
+  children: Node,
+  onError: (error: unknown, partial: PartiallyRendered[]) => Node,
+  { wrapRender }: Pick<RenderContext, 'wrapRender'>
+): Element<any> {
+  // Each boundary gets a component of its own so that it can be recognized even once it's been memoized (which
+  // copies elements).
+  function CatchRenderErrors(props: { children: Node }) {
+    return props.children;
+  }
+
+  // Rendering the children in a context of our own lets us render them with the options the boundary is rendered
+  // with, which components don't otherwise have access to.
+  const boundaryContext = wrapRender(
+    (renderStream): StreamRenderer =>
+      async function* (context, renderable, shouldStop, appendOnly, provenance) {
+        if (!isElement(renderable) || renderable.tag !== CatchRenderErrors) {
+          return yield* renderStream(context, renderable, shouldStop, appendOnly, provenance);
+        }
+
+        let partial = [] as PartiallyRendered[];
+        try {
+          return yield* mapFrames(renderStream(context, renderable, shouldStop, appendOnly, provenance), (frame) => {
+            partial = frame;
+            return frame;
+          });
+        } catch (ex) {
+          const prefix = appendOnly ? partial : [];
+          return yield* mapFrames(
+            renderStream(context, onError(ex, partial), shouldStop, appendOnly, provenance),
+            (frame) => prefix.concat(frame)
+          );
+        }
+      }
+  );
+
+  return withContext(createElement(CatchRenderErrors, null, children), boundaryContext);
+}
@@ -35,6 +35,15 @@ export enum ErrorCode {
   Llama2DoesNotSupportFunctionResponse = 1028,
   Llama2DoesNotSupportMultipleSystemMessages = 1029,
 
+  RenderAborted = 1030,
+  DeadlineExceeded = 1031,
+  RecordReplayMissingInteraction = 1032,
+  ScriptedModelUnmatchedRequest = 1033,
+  BudgetExceeded = 1034,
+  SamplesBadInput = 1035,
+  ScriptedCompletionModelBadResponse = 1036,
+  ConcurrencyLimitBadInput = 1037,
+
   ModelOutputDidNotMatchConstraint = 2000,
 
   UnsupportedMimeType = 2001,
@@ -44,6 +53,9 @@ export enum ErrorCode {
 
   ModelOutputCouldNotBeParsedForTool = 2005,
   ModelHallucinatedTool = 2006,
+  ChunkerBadInput = 2007,
+  ToolUseLimitReached = 2008,
+  UseToolsBadInput = 2009,
 }
 
 export type ErrorBlame =
@@ -112,3 +124,26 @@ export class HttpError extends AIJSXError {
     super(message || `HTTP request failed with status code ${statusCode}`, errorCode, 'runtime');
   }
 }
+
+/**
+ * Represents an error that occurs when rendering does not complete before its deadline.
+ */
+export class DeadlineExceededError extends AIJSXError {
+  constructor(readonly timeoutMs: number) {
+    super(`Rendering did not complete within ${timeoutMs}ms.`, ErrorCode.DeadlineExceeded, 'runtime', { timeoutMs });
+  }
+}
+
+/**
+ * Represents an error that occurs when a model call would exceed, or has exceeded, the enclosing `Budget`.
+ */
+export class BudgetExceededError extends AIJSXError {
+  constructor(readonly limit: 'maxTokens' | 'maxCostUsd', readonly max: number, readonly used: number) {
+    super(
+      `The budget was exceeded: ${limit} is ${max}, but model calls would use ${used}.`,
+      ErrorCode.BudgetExceeded,
+      'runtime',
+      { limit, max, used }
+    );
+  }
+}
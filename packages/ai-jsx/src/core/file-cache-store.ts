@@ -0,0 +1,57 @@
+/**
+ * This module provides a {@link CacheStore} that persists cached renderings to the file system.
+ * @packageDocumentation
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { CacheEntry, CacheStore } from './cache.js';
+
+/**
+ * A {@link CacheStore} that stores each entry as a JSON file in `directory`, so that cached renderings survive
+ * restarts and can be shared between processes.
+ *
+ * @example
+ * ```tsx
+ *  const store = new FileCacheStore('.cache/ai-jsx');
+ *
+ *  <Cache store={store} key="expensive">
+ *    <ExpensiveComponent />
+ *  </Cache>
+ * ```
+ *
+ * Entries that `Cache` keys by its children are only found by the process that cached them (their keys include an id
+ * unique to that process), so give a `key` to share an entry between processes or keep it across restarts.
+ *
+ * @note This uses the Node `fs` module, so it only works in Node.
+ */
+export class FileCacheStore implements CacheStore {
+  constructor(readonly directory: string) {}
+
+  async get(key: string) {
+    try {
+      return JSON.parse(await fs.readFile(this.pathOf(key), 'utf8')) as CacheEntry;
+    } catch (ex) {
+      if ((ex as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw ex;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry) {
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write to a temporary file first so that concurrent readers never see a partially-written entry.
+    const temporaryPath = `${this.pathOf(key)}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temporaryPath, JSON.stringify(entry));
+    await fs.rename(temporaryPath, this.pathOf(key));
+  }
+
+  async delete(key: string) {
+    await fs.rm(this.pathOf(key), { force: true });
+  }
+
+  private pathOf(key: string) {
+    return path.join(this.directory, `${encodeURIComponent(key)}.json`);
+  }
+}
@@ -43,10 +43,10 @@ function AutomaticImageGenModel({ children, ...props }: ImageGenPropsWithChildre
 }
 
 /** The default context used by {@link ImageGen}. */
-const imageGenContext = AI.createContext<[ImageGenComponent<ImageGenPropsWithChildren>, ImageGenProps]>([
-  AutomaticImageGenModel,
-  {},
-]);
+const imageGenContext = AI.createContext<[ImageGenComponent<ImageGenPropsWithChildren>, ImageGenProps]>(
+  [AutomaticImageGenModel, {}],
+  'ImageGenProvider'
+);
 
 /**
  * An ImageGenProvider is used by {@link ImageGen} to access an underlying image-generation model.
@@ -0,0 +1,60 @@
+/**
+ * This module provides a way to observe and replace the requests that model components make to model providers.
+ * @packageDocumentation
+ */
+
+import { RenderContext, createContext } from '../index.js';
+
+/**
+ * Intercepts requests to model providers. See {@link interceptModelCall}.
+ */
+export interface ModelCallInterceptor {
+  /**
+   * @param provider Identifies the API being called, e.g. `openai.createChatCompletion`.
+   * @param request The request.
+   * @param call Makes the actual request, yielding the chunks of its response.
+   * @returns The chunks of the response, which need not come from `call`.
+   */
+  intercept<T>(provider: string, request: unknown, call: () => AsyncIterable<T>): AsyncIterable<T>;
+}
+
+/** @hidden */
+export const ModelCallInterceptorContext = createContext<ModelCallInterceptor | null>(null, 'ModelCallInterceptor');
+
+/**
+ * Makes a streaming request to a model provider, subject to any enclosing {@link ModelCallInterceptor}. `call` makes
+ * the actual request and yields the chunks of its response, which should be JSON-serializable.
+ *
+ * The built-in model components use this for their requests. Custom model components can use it so that they work with
+ * components like `RecordReplay`.
+ *
+ * @param provider Identifies the API being called, e.g. `openai.createChatCompletion`.
+ * @param request The request, which identifies the call to interceptors.
+ */
+export function interceptModelCall<T>(
+  { getContext }: Pick<RenderContext, 'getContext'>,
+  provider: string,
+  request: unknown,
+  call: () => AsyncIterable<T>
+): AsyncIterable<T> {
+  const interceptor = getContext(ModelCallInterceptorContext);
+  return interceptor ? interceptor.intercept(provider, request, call) : call();
+}
+
+/**
+ * Like {@link interceptModelCall}, but for requests that don't stream.
+ */
+export async function interceptModelCallResult<T>(
+  context: Pick<RenderContext, 'getContext'>,
+  provider: string,
+  request: unknown,
+  call: () => Promise<T>
+): Promise<T> {
+  let result: T | undefined;
+  for await (const chunk of interceptModelCall(context, provider, request, async function* () {
+    yield await call();
+  })) {
+    result = chunk;
+  }
+  return result as T;
+}
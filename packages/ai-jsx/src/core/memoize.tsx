@@ -1,4 +1,4 @@
-import { Renderable, RenderContext, AppendOnlyStream } from './render.js';
+import { Renderable, RenderContext, AppendOnlyStream, memoKeySymbol } from './render.js';
 import { Node, getReferencedNode, isIndirectNode, makeIndirectNode, isElement } from './node.js';
 import { Logger } from './log.js';
 
@@ -31,13 +31,14 @@ export function partialMemo(renderable: Renderable): Node {
     // N.B. "Partial" memoization applies per-RenderContext -- if the same component is
     // rendered under two different RenderContexts, it won't be memoized. However, the
     // top-level RenderContext.memo will additionally bind the top-level `Renderable` to a
-    // single RenderContext to ensure that it only renders once.
-    const memoizedValues = new WeakMap<RenderContext, Renderable>();
+    // single RenderContext to ensure that it only renders once. (RenderContexts that only differ in which
+    // element they're rendering on behalf of share a memo key, so they count as the same RenderContext.)
+    const memoizedValues = new WeakMap<object, Renderable>();
     const newElement = {
       ...renderable,
       render: (ctx: RenderContext, logger: Logger) => {
-        if (memoizedValues.has(ctx)) {
-          return memoizedValues.get(ctx);
+        if (memoizedValues.has(ctx[memoKeySymbol])) {
+          return memoizedValues.get(ctx[memoKeySymbol]);
         }
 
         let renderResult: Renderable;
@@ -48,7 +49,7 @@ export function partialMemo(renderable: Renderable): Node {
           renderResult = Promise.reject(ex);
         }
 
-        memoizedValues.set(ctx, renderResult);
+        memoizedValues.set(ctx[memoKeySymbol], renderResult);
         return renderResult;
       },
     };
@@ -0,0 +1,168 @@
+/**
+ * This module provides a way to fall back to other models when a model call fails.
+ * @packageDocumentation
+ */
+
+import { ComponentContext, Node, PartiallyRendered, isProvenanceBoundary } from '../index.js';
+import { ChatProvider, CompletionProvider, ModelComponent, ModelPropsWithChildren } from './completion.js';
+import { catchRenderErrors } from './error-boundary.js';
+import { AIJSXError, ErrorCode, HttpError } from './errors.js';
+
+/**
+ * A model in a {@link ModelFallback} chain: either a model component, or a model component along with props to pass
+ * it (such as the name of the model to use).
+ *
+ * @example
+ * ```tsx
+ *  { component: OpenAIChatModel, props: { model: 'gpt-4' } }
+ * ```
+ */
+export type FallbackModel =
+  | ModelComponent<ModelPropsWithChildren>
+  | { component: ModelComponent<any>; props?: Record<string, unknown> };
+
+/**
+ * The errors that make {@link ModelFallback} fall back to the next model.
+ */
+export interface FallbackConditions {
+  /** The HTTP status codes to fall back on, or a predicate on them. By default, 429 and 5xx. */
+  statusCodes?: number[] | ((statusCode: number) => boolean);
+  /** Whether to fall back when functions were provided to a model that doesn't support them. Defaults to `true`. */
+  unsupportedFunctions?: boolean;
+  /** Whether to fall back when a model call times out. Defaults to `true`. */
+  timeouts?: boolean;
+}
+
+const timeoutStatusCodes = [408, 504];
+
+const unsupportedFunctionsCodes = [
+  ErrorCode.ChatModelDoesNotSupportFunctions,
+  ErrorCode.AnthropicDoesNotSupportFunctions,
+  ErrorCode.Llama2DoesNotSupportFunctions,
+  ErrorCode.Llama2DoesNotSupportFunctionCalls,
+  ErrorCode.Llama2DoesNotSupportFunctionResponse,
+];
+
+/**
+ * Creates a predicate that determines whether an error meets the {@link FallbackConditions}.
+ */
+export function fallbackOn({
+  statusCodes = (statusCode) => statusCode === 429 || statusCode >= 500,
+  unsupportedFunctions = true,
+  timeouts = true,
+}: FallbackConditions = {}) {
+  const isFallbackStatus = Array.isArray(statusCodes)
+    ? (statusCode: number) => statusCodes.includes(statusCode)
+    : statusCodes;
+
+  return (error: unknown) => {
+    if (error instanceof HttpError) {
+      return isFallbackStatus(error.statusCode) || (timeouts && timeoutStatusCodes.includes(error.statusCode));
+    }
+    if (error instanceof AIJSXError) {
+      return (
+        (unsupportedFunctions && unsupportedFunctionsCodes.includes(error.code)) ||
+        (timeouts && error.code === ErrorCode.DeadlineExceeded)
+      );
+    }
+    // `AbortSignal.timeout` (which `fetch` timeouts are typically built on) aborts with a `TimeoutError`.
+    return timeouts && error instanceof Error && error.name === 'TimeoutError';
+  };
+}
+
+/** Whether a frame includes any output, as opposed to e.g. empty strings. */
+function hasOutput(frame: PartiallyRendered[]) {
+  return frame.some((e) => (typeof e === 'string' ? e.length > 0 : !isProvenanceBoundary(e)));
+}
+
+/**
+ * Creates a model component that calls each of `models` in turn until one succeeds.
+ */
+function fallbackModelComponent(
+  models: FallbackModel[],
+  shouldFallBack: (error: unknown) => boolean
+): ModelComponent<ModelPropsWithChildren> {
+  return function ModelWithFallbacks(props: ModelPropsWithChildren, context: ComponentContext) {
+    const { logger, signal } = context;
+
+    const attempt = (index: number): Node => {
+      const model = models[index];
+      const [Model, modelProps] = typeof model === 'function' ? [model, {}] : [model.component, model.props ?? {}];
+
+      return catchRenderErrors(
+        <Model {...props} {...modelProps} />,
+        (error, partial) => {
+          // Once output has streamed, we can't take it back. And if rendering was aborted, so would the next model be.
+          if (index + 1 >= models.length || hasOutput(partial) || signal.aborted || !shouldFallBack(error)) {
+            throw error;
+          }
+
+          logger.warn(
+            { failedModel: Model.name, error: `${error}`, remainingModels: models.length - index - 1 },
+            'Model call failed; falling back to the next model.'
+          );
+          return attempt(index + 1);
+        },
+        context
+      );
+    };
+
+    return attempt(0);
+  };
+}
+
+/**
+ * Provides chat and/or completion models to {@link ChatCompletion} and {@link Completion} (like `ChatProvider` and
+ * `CompletionProvider`) that fall back to the next model in a list when a model call fails, e.g. because a provider
+ * is down or doesn't support function calling.
+ *
+ * By default, models fall back on the errors described by {@link fallbackOn}. Pass {@link FallbackConditions} or a
+ * predicate as `fallbackOn` to choose others. Either way, once a model has streamed any output, its errors are thrown
+ * rather than falling back, since the output can't be taken back. Each fallback is logged as a warning.
+ *
+ * @example
+ * ```tsx
+ *  <ModelFallback
+ *    chatModels={[
+ *      { component: OpenAIChatModel, props: { model: 'gpt-4' } },
+ *      { component: OpenAIChatModel, props: { model: 'gpt-3.5-turbo' } },
+ *      { component: AnthropicChatModel, props: { model: 'claude-2' } },
+ *    ]}
+ *  >
+ *    <ChatCompletion>
+ *      <UserMessage>Write me a poem.</UserMessage>
+ *    </ChatCompletion>
+ *  </ModelFallback>
+ * ```
+ *
+ * @note Props on a {@link FallbackModel} take precedence over those passed to `ChatCompletion` or `Completion`.
+ */
+export function ModelFallback({
+  children,
+  chatModels,
+  completionModels,
+  fallbackOn: conditions = {},
+}: {
+  children: Node;
+  /** The chat models to try, in order. If not provided, the current chat model is used as-is. */
+  chatModels?: FallbackModel[];
+  /** The completion models to try, in order. If not provided, the current completion model is used as-is. */
+  completionModels?: FallbackModel[];
+  /** When to fall back to the next model. */
+  fallbackOn?: FallbackConditions | ((error: unknown) => boolean);
+}) {
+  const shouldFallBack = typeof conditions === 'function' ? conditions : fallbackOn(conditions);
+
+  let result: Node = children;
+  if (chatModels?.length) {
+    result = <ChatProvider component={fallbackModelComponent(chatModels, shouldFallBack)}>{result}</ChatProvider>;
+  }
+  if (completionModels?.length) {
+    result = (
+      <CompletionProvider component={fallbackModelComponent(completionModels, shouldFallBack)}>
+        {result}
+      </CompletionProvider>
+    );
+  }
+  return result;
+}
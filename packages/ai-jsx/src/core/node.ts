@@ -6,12 +6,18 @@
  * @packageDocumentation
  */
 
-import { RenderContext, Renderable } from './render.js';
+import { RenderContext, Renderable, AbortSignalContext } from './render.js';
 import { Logger } from './log.js';
 
 /** A context that is used to render an AI.JSX component. */
 export interface ComponentContext extends RenderContext {
   logger: Logger;
+
+  /**
+   * An `AbortSignal` that is aborted when the render this component belongs to is aborted. Components
+   * that do their own I/O (such as calling a model API) should pass it along so that the work stops too.
+   */
+  signal: AbortSignal;
 }
 
 /** Represents a single AI.JSX component. */
@@ -119,7 +125,7 @@ export function createElement<P extends { children: C | C[] }, C>(
   const result = {
     tag,
     props: propsToPass,
-    render: (ctx, logger) => tag(propsToPass, { ...ctx, logger }),
+    render: (ctx, logger) => tag(propsToPass, { ...ctx, logger, signal: ctx.getContext(AbortSignalContext) }),
   } as Element<P>;
   Object.freeze(propsToPass);
   Object.freeze(result);
@@ -0,0 +1,167 @@
+/**
+ * This module provides a way to record model calls to a file and replay them later, e.g. to write deterministic tests.
+ * @packageDocumentation
+ */
+
+import fs from 'node:fs/promises';
+import { Jsonifiable } from 'type-fest';
+import { ComponentContext, Node } from '../index.js';
+import { AIJSXError, ErrorCode } from './errors.js';
+import { ModelCallInterceptor, ModelCallInterceptorContext } from './intercept.js';
+import { hash, normalize } from '../lib/util.js';
+
+/**
+ * How {@link RecordReplay} treats model calls:
+ *  * `record`: Make every call and record it, overwriting the cassette.
+ *  * `replay`: Replay every call from the cassette, throwing if a call wasn't recorded.
+ *  * `auto`: Replay calls that were recorded, and make and record the rest.
+ */
+export type RecordReplayMode = 'record' | 'replay' | 'auto';
+
+/**
+ * A single recorded model call.
+ */
+interface Interaction {
+  key: string;
+  provider: string;
+  request: Jsonifiable;
+  chunks: Jsonifiable[];
+}
+
+interface CassetteFile {
+  version: 1;
+  interactions: Interaction[];
+}
+
+class Cassette implements ModelCallInterceptor {
+  private readonly replayCounts = new Map<string, number>();
+  private pendingWrite = Promise.resolve();
+
+  constructor(readonly path: string, readonly mode: RecordReplayMode, private readonly interactions: Interaction[]) {}
+
+  static async load(path: string, mode: RecordReplayMode) {
+    if (mode === 'record') {
+      return new Cassette(path, mode, []);
+    }
+
+    let contents: string;
+    try {
+      contents = await fs.readFile(path, 'utf8');
+    } catch (ex) {
+      if (mode === 'auto' && (ex as NodeJS.ErrnoException).code === 'ENOENT') {
+        return new Cassette(path, mode, []);
+      }
+      throw ex;
+    }
+
+    return new Cassette(path, mode, (JSON.parse(contents) as CassetteFile).interactions);
+  }
+
+  /**
+   * Intercepts a model call. `call` makes the actual request, and yields the chunks of its response.
+   */
+  async *intercept<T>(
+    provider: string,
+    request: unknown,
+    call: () => AsyncIterable<T>
+  ): AsyncGenerator<T, void, undefined> {
+    const normalizedRequest = normalize(request);
+    const key = `${provider}:${hash(JSON.stringify(normalizedRequest))}`;
+
+    const recording = this.mode === 'record' ? undefined : this.nextRecording(key);
+    if (recording) {
+      yield* recording.chunks as T[];
+      return;
+    }
+
+    if (this.mode === 'replay') {
+      throw new AIJSXError(
+        `No recording of this ${provider} request was found in ${this.path}. Render in "record" or "auto" mode to record it.`,
+        ErrorCode.RecordReplayMissingInteraction,
+        'user',
+        { provider, key, request: normalizedRequest }
+      );
+    }
+
+    const chunks = [] as T[];
+    for await (const chunk of call()) {
+      chunks.push(chunk);
+      yield chunk;
+    }
+
+    this.interactions.push({ key, provider, request: normalizedRequest, chunks: chunks as Jsonifiable[] });
+    await this.save();
+  }
+
+  /**
+   * Returns the next recording of a request. Recordings are replayed in the order they were recorded;
+   * once they've all been replayed, the last one is replayed again.
+   */
+  private nextRecording(key: string) {
+    const recordings = this.interactions.filter((interaction) => interaction.key === key);
+    if (!recordings.length) {
+      return undefined;
+    }
+
+    const count = this.replayCounts.get(key) ?? 0;
+    this.replayCounts.set(key, count + 1);
+    return recordings[Math.min(count, recordings.length - 1)];
+  }
+
+  private save() {
+    // Serialize writes so that concurrent calls can't clobber each other.
+    this.pendingWrite = this.pendingWrite.then(async () => {
+      const file: CassetteFile = { version: 1, interactions: this.interactions };
+      await fs.writeFile(this.path, `${JSON.stringify(file, null, 2)}\n`);
+    });
+    return this.pendingWrite;
+  }
+}
+
+/**
+ * Records the model calls made by its children to a "cassette" file, or replays them from it. This makes it possible
+ * to write fast, deterministic tests for AI.JSX apps.
+ *
+ * Calls are matched by provider and (normalized) request, so a replayed call must be identical to the recorded one.
+ * Responses are replayed chunk by chunk, so streaming behaves as it did when it was recorded. If the same request is
+ * made several times, its recordings are replayed in order.
+ *
+ * @example
+ * ```tsx
+ *  <RecordReplay cassette="__cassettes__/story.json" mode={process.env.CI ? 'replay' : 'auto'}>
+ *    <ChatCompletion>
+ *      <UserMessage>Write me a story.</UserMessage>
+ *    </ChatCompletion>
+ *  </RecordReplay>
+ * ```
+ *
+ * Custom model components can participate by making their requests with {@link interceptModelCall}.
+ *
+ * @note Cassettes are read and written with the Node `fs` module, so this only works in Node.
+ */
+export async function RecordReplay(
+  {
+    cassette,
+    mode = 'auto',
+    children,
+  }: {
+    /** The path of the cassette file. */
+    cassette: string;
+    mode?: RecordReplayMode;
+    children: Node;
+  },
+  { getContext }: ComponentContext
+) {
+  const loaded = await Cassette.load(cassette, mode);
+
+  // Requests that aren't replayed pass through any enclosing interceptor.
+  const outer = getContext(ModelCallInterceptorContext);
+  const interceptor: ModelCallInterceptor = outer
+    ? {
+        intercept: (provider, request, call) =>
+          loaded.intercept(provider, request, () => outer.intercept(provider, request, call)),
+      }
+    : loaded;
+
+  return <ModelCallInterceptorContext.Provider value={interceptor}>{children}</ModelCallInterceptorContext.Provider>;
+}
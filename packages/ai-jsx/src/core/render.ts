@@ -8,7 +8,7 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import { BoundLogger, NoOpLogImplementation, LogImplementation, PinoLogger } from './log.js';
-import { AIJSXError, ErrorCode } from './errors.js';
+import { AIJSXError, DeadlineExceededError, ErrorCode } from './errors.js';
 import { partialMemo } from './memoize.js';
 import {
   Node,
@@ -53,23 +53,113 @@ export type StreamRenderer = (
   renderContext: RenderContext,
   renderable: Renderable,
   shouldStop: ElementPredicate,
-  appendOnly: boolean
+  appendOnly: boolean,
+  provenance?: boolean
 ) => AsyncGenerator<PartiallyRendered[], PartiallyRendered[]>;
 
+/**
+ * Maps a range of rendered text back to the element that produced it.
+ */
+export interface ProvenanceSpan {
+  /** The offset of the first character produced by the element. */
+  start: number;
+  /** The offset just past the last character produced by the element. */
+  end: number;
+  /** The `renderId` of the element, as passed to {@link RenderHooks} and bound to its logger. */
+  renderId: string;
+  /** The name of the element's component. */
+  tag: string;
+  /** The names of the components whose output contains this span, from the outermost to this element's own. */
+  path: string[];
+}
+
+/**
+ * The result of rendering with `provenance: true`.
+ */
+export interface RenderedWithProvenance {
+  /** The rendered text. */
+  text: string;
+  /**
+   * The non-empty spans of `text` produced by each element, in the order the elements appear in the output. Spans of
+   * nested elements are contained within those of their ancestors.
+   */
+  spans: ProvenanceSpan[];
+}
+
+/**
+ * Describes an element being rendered. Passed to each of the {@link RenderHooks}.
+ */
+export interface ElementRenderInfo {
+  /** Uniquely identifies this rendering of the element. It's also the identifier bound to the element's logger. */
+  renderId: string;
+  /** The `renderId` of the element that rendered this one, or `null` if it was rendered from the top level. */
+  parentRenderId: string | null;
+  /** The element being rendered. */
+  element: Element<any>;
+  /** When rendering started, in milliseconds since the Unix epoch. */
+  startTime: number;
+}
+
+/**
+ * Callbacks that observe the rendering of each element. Use {@link RenderContext.addHooks} or the `hooks`
+ * option of {@link createRenderContext} to register them.
+ *
+ * Hooks are called synchronously as rendering progresses, so they should return quickly.
+ */
+export interface RenderHooks {
+  /** Called when an element starts rendering. */
+  onElementStart?: (info: ElementRenderInfo) => void;
+  /** Called with each intermediate frame an element renders to. */
+  onFrame?: (info: ElementRenderInfo & { frame: PartiallyRendered[] }) => void;
+  /** Called when an element fails to render. `onElementEnd` is called afterwards. */
+  onError?: (info: ElementRenderInfo & { error: unknown }) => void;
+  /**
+   * Called when an element stops rendering, whether it completed, failed, or was torn down early.
+   * `output` is the final result, or `undefined` if the element didn't complete.
+   */
+  onElementEnd?: (info: ElementRenderInfo & { endTime: number; output: PartiallyRendered[] | undefined }) => void;
+}
+
+/**
+ * Options that bound how often a render produces intermediate frames. See the `coalesce` option of
+ * {@link RenderContext.render}.
+ */
+export interface FrameCoalescingOpts {
+  /** The maximum number of intermediate frames to produce per second. */
+  maxFramesPerSecond?: number;
+  /** The minimum change in the length of the rendered text between intermediate frames. */
+  minDeltaSize?: number;
+}
+
 const contextKey = Symbol('AI.contextKey');
-/** @hidden */
+/**
+ * A Context carries a value of type `T` down the tree, without it being passed explicitly as a prop. Create one with
+ * {@link createContext}, set its value for a subtree with `Provider`, and read the value with
+ * {@link RenderContext.getContext} or `Consumer`.
+ */
 export interface Context<T> {
+  /** Sets the value of the context for its children. */
   Provider: Component<{ children: Node; value: T }>;
+  /** Renders its child function with the current value of the context. */
+  Consumer: Component<{ children: (value: T) => Renderable }>;
+  /** A name for the context, for debugging. */
+  displayName?: string;
   [contextKey]: { defaultValue: T; userContextSymbol: symbol };
 }
 
+/**
+ * A list of contexts with a value for each, as accepted by {@link createRenderContext}. Each value must have the
+ * type of its context.
+ */
+export type ContextValues<T extends unknown[]> = { [K in keyof T]: readonly [Context<T[K]>, T[K]] };
+
 interface RenderOpts<TIntermediate = string, TFinal = string> {
   /**
    * Instructs rendering to stop rendering on certain elements. When specified,
    * rendering will return an array of strings and `Element`s rather than a
    * string.
    */
-  stop?: TFinal extends string ? false : ElementPredicate;
+  stop?: TFinal extends PartiallyRendered[] ? ElementPredicate : false;
 
   /**
    * Maps the intermediate (but not final) results produced by rendering. By default
@@ -83,6 +173,26 @@ interface RenderOpts<TIntermediate = string, TFinal = string> {
    * Indicates that the stream should be append-only.
    */
   appendOnly?: boolean;
+
+  /**
+   * An `AbortSignal` that aborts this render. Elements rendered as part of this render will observe
+   * both this signal and any signal the `RenderContext` was already bound to.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Indicates that the final result should map ranges of the rendered text back to the elements that produced
+   * them. See {@link RenderedWithProvenance}.
+   */
+  provenance?: TFinal extends string ? false : boolean;
+
+  /**
+   * Coalesces intermediate frames. Rendering then proceeds without waiting for the consumer: each time the consumer
+   * asks for the next frame, it receives the latest one, and the frames rendered in the meantime are dropped (they
+   * aren't passed to `map`). Pass {@link FrameCoalescingOpts} to further limit how often frames are produced. The
+   * final result is always produced.
+   */
+  coalesce?: boolean | FrameCoalescingOpts;
 }
 
 /**
@@ -95,6 +205,10 @@ export interface RenderResult<TIntermediate, TFinal> {
 }
 
 const pushContextSymbol = Symbol('RenderContext.pushContext');
+const parentRenderIdSymbol = Symbol('RenderContext.parentRenderId');
+const withParentRenderIdSymbol = Symbol('RenderContext.withParentRenderId');
+/** @hidden */
+export const memoKeySymbol = Symbol('RenderContext.memoKey');
 /**
  * A RenderContext is responsible for rendering an AI.JSX Node tree.
  */
@@ -106,6 +220,10 @@ export interface RenderContext {
    * @param renderable The value to render.
    * @param opts Additional options.
    */
+  render<TIntermediate = string>(
+    renderable: Renderable,
+    opts: RenderOpts<TIntermediate, RenderedWithProvenance> & { provenance: true }
+  ): RenderResult<TIntermediate, RenderedWithProvenance>;
   render<TIntermediate = string>(
     renderable: Renderable,
     opts?: RenderOpts<TIntermediate>
@@ -118,15 +236,30 @@ export interface RenderContext {
   /**
    * Gets the current value associated with a context.
    * @param context The context holder, as returned from `createContext`.
+   * @returns The value set by the nearest enclosing `Provider` (or when creating the render context), or the
+   *   context's default value if there isn't one.
    */
   getContext<T>(context: Context<T>): T;
 
+  /**
+   * Lists the contexts that have values set (by a `Provider` or when creating the render context) along with their
+   * current values, including those used internally by AI.JSX. This is useful for debugging, and the result can be
+   * passed as the `contexts` option of {@link createRenderContext} to render with the same values elsewhere.
+   */
+  getContextValues(): ContextValues<any[]>;
+
   /**
    * Creates a new `RenderContext` by wrapping the existing render function.
    * @param getRenderer A function that returns the new renderer function.
    */
   wrapRender(getRenderer: (r: StreamRenderer) => StreamRenderer): RenderContext;
 
+  /**
+   * Creates a new `RenderContext` that calls the provided hooks as elements are rendered.
+   * @param hooks The {@link RenderHooks} to call, in addition to any hooks already registered.
+   */
+  addHooks(hooks: RenderHooks): RenderContext;
+
   /**
    * Memoize a {@link Renderable} so it always returns the same thing.
    *
@@ -173,35 +306,307 @@ export interface RenderContext {
    * @returns The new `RenderContext`.
    */
   [pushContextSymbol]: <T>(context: Context<T>, value: T) => RenderContext;
+
+  /**
+   * The `renderId` of the element on whose behalf rendering happens in this context, if any.
+   */
+  [parentRenderIdSymbol]: string | null;
+
+  /**
+   * An internal function used to attribute rendering to a given element. The new `RenderContext` is
+   * otherwise equivalent to this one: it shares the same {@link memoKeySymbol}.
+   */
+  [withParentRenderIdSymbol]: (renderId: string | null) => RenderContext;
+
+  /**
+   * Identifies `RenderContext`s that are equivalent for the purposes of memoization.
+   */
+  [memoKeySymbol]: object;
 }
 
-/** @hidden */
-export function createContext<T>(defaultValue: T): Context<T> {
+/**
+ * Creates a {@link Context}.
+ *
+ * @example
+ * ```tsx
+ *    const UserId = AI.createContext<string | null>(null, 'UserId');
+ *
+ *    function Greeting(props: {}, { getContext }: AI.ComponentContext) {
+ *      return `Hello, ${getContext(UserId) ?? 'stranger'}!`;
+ *    }
+ *
+ *    <UserId.Provider value="sam">
+ *      <Greeting />
+ *      <UserId.Consumer>{(userId) => `Your id is ${userId}.`}</UserId.Consumer>
+ *    </UserId.Provider>
+ * ```
+ *
+ * @param defaultValue The value of the context where no `Provider` has set it.
+ * @param displayName A name for the context, for debugging.
+ */
+export function createContext<T>(defaultValue: T, displayName?: string): Context<T> {
   const ctx: Context<T> = {
     Provider: function ContextProvider(props: { value: T; children: Node }, { [pushContextSymbol]: pushContext }) {
       const fragment = createElement(Fragment, null, props.children);
       return withContext(fragment, pushContext(ctx, props.value));
     },
-    [contextKey]: { defaultValue, userContextSymbol: Symbol() },
+    Consumer: function ContextConsumer(props: { children: (value: T) => Renderable }, { getContext }) {
+      return props.children(getContext(ctx));
+    },
+    displayName,
+    [contextKey]: { defaultValue, userContextSymbol: Symbol(displayName) },
   };
 
   return ctx;
 }
 
 /** @hidden */
-export const LoggerContext = createContext<LogImplementation>(new NoOpLogImplementation());
+export const LoggerContext = createContext<LogImplementation>(new NoOpLogImplementation(), 'Logger');
+
+/** @hidden */
+export const RenderHooksContext = createContext<RenderHooks[]>([], 'RenderHooks');
+
+/** A signal that is never aborted. */
+const neverAbortedSignal = new AbortController().signal;
+
+/**
+ * The `AbortSignal` observed by rendering. By default this is a signal that is never aborted.
+ * @hidden
+ */
+export const AbortSignalContext = createContext<AbortSignal>(neverAbortedSignal, 'AbortSignal');
+
+/**
+ * The time (in milliseconds since the epoch) by which rendering must complete. By default there is no deadline.
+ * @hidden
+ */
+export const DeadlineContext = createContext<number>(Infinity, 'Deadline');
+
+/**
+ * Creates the error thrown when rendering is aborted. If the signal was aborted with an
+ * {@link AIJSXError} (e.g. because a deadline expired), that error is used as-is.
+ * @hidden
+ */
+export function abortError(signal: AbortSignal) {
+  if (signal.reason instanceof AIJSXError) {
+    return signal.reason;
+  }
+  return new AIJSXError('Rendering was aborted.', ErrorCode.RenderAborted, 'runtime', {
+    reason: `${signal.reason}`,
+  });
+}
+
+const abortCallbacks = new WeakMap<AbortSignal, Set<() => void>>();
+
+/**
+ * Registers a callback to be invoked when `signal` is aborted and returns a function that unregisters it.
+ *
+ * Many renders can be waiting on the same signal at once, so rather than adding an event listener for each
+ * one (which triggers Node's `MaxListenersExceededWarning`), each signal gets a single listener.
+ * @hidden
+ */
+export function onAbort(signal: AbortSignal, callback: () => void): () => void {
+  const callbacks = abortCallbacks.get(signal) ?? new Set<() => void>();
+  if (!abortCallbacks.has(signal)) {
+    signal.addEventListener('abort', () => callbacks.forEach((cb) => cb()), { once: true });
+    abortCallbacks.set(signal, callbacks);
+  }
+
+  callbacks.add(callback);
+  return () => callbacks.delete(callback);
+}
+
+/**
+ * Races a promise against an `AbortSignal`, rejecting as soon as the signal is aborted.
+ */
+function abortable<T>(promise: PromiseLike<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(abortError(signal));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const unregister = onAbort(signal, () => reject(abortError(signal)));
+    promise.then(
+      (value) => {
+        unregister();
+        resolve(value);
+      },
+      (error) => {
+        unregister();
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Drives `frames` independently of the consumer, yielding only the latest frame each time the consumer asks for one
+ * (subject to the limits in `opts`). The final result is always returned as soon as it's available.
+ */
+async function* coalesceFrames(
+  frames: AsyncGenerator<PartiallyRendered[], PartiallyRendered[]>,
+  { maxFramesPerSecond = Infinity, minDeltaSize = 0 }: FrameCoalescingOpts
+): AsyncGenerator<PartiallyRendered[], PartiallyRendered[]> {
+  const minIntervalMs = 1000 / maxFramesPerSecond;
+  const textLength = (frame: PartiallyRendered[]) =>
+    frame.reduce((length, part) => length + (typeof part === 'string' ? part.length : 0), 0);
+
+  let latest = null as IteratorResult<PartiallyRendered[], PartiallyRendered[]> | null;
+  let failure = null as { error: unknown } | null;
+  let notify = () => {};
+  // Resolves when there's a new frame (or failure), or after `timeoutMs`.
+  const nextUpdate = (timeoutMs: number = Infinity) =>
+    new Promise<void>((resolve) => {
+      const timer = timeoutMs === Infinity ? undefined : setTimeout(resolve, timeoutMs);
+      notify = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+
+  // These are updated concurrently, so they're typed explicitly to avoid narrowing.
+  let isDone = false as boolean;
+  let isStopped = false as boolean;
+  (async () => {
+    try {
+      while (!isDone) {
+        const next = await frames.next();
+        if (isStopped) {
+          return;
+        }
+        latest = next;
+        isDone = Boolean(next.done);
+        notify();
+      }
+    } catch (error) {
+      failure = { error };
+      notify();
+    }
+  })();
+
+  let lastLength = 0;
+  let lastYieldTime = -Infinity;
+  try {
+    while (true) {
+      if (failure !== null) {
+        throw failure.error;
+      }
+      if (latest === null) {
+        await nextUpdate();
+        continue;
+      }
+      if (latest.done) {
+        return latest.value;
+      }
+
+      const frame = latest.value;
+      if (Math.abs(textLength(frame) - lastLength) < minDeltaSize) {
+        await nextUpdate();
+        continue;
+      }
+      const waitMs = lastYieldTime + minIntervalMs - Date.now();
+      if (waitMs > 0) {
+        await nextUpdate(waitMs);
+        continue;
+      }
+
+      latest = null;
+      lastLength = textLength(frame);
+      lastYieldTime = Date.now();
+      yield frame;
+    }
+  } finally {
+    isStopped = true;
+    if (!isDone) {
+      // The consumer stopped early, so stop rendering.
+      frames.return([]).catch(() => {});
+    }
+  }
+}
+
+/**
+ * Returns an `AbortSignal` that is aborted when any of the provided signals are aborted, and a function that stops
+ * following them. Signals that are never aborted are skipped, and if only one signal is left, it's returned as-is.
+ */
+function anySignal(signals: AbortSignal[]): { signal: AbortSignal; dispose: () => void } {
+  const followed = signals.filter((signal) => signal !== neverAbortedSignal);
+  if (followed.length <= 1) {
+    return { signal: followed[0] ?? neverAbortedSignal, dispose: () => {} };
+  }
+
+  const controller = new AbortController();
+  const unregisters: (() => void)[] = [];
+  for (const signal of followed) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    unregisters.push(onAbort(signal, () => controller.abort(signal.reason)));
+  }
+  return { signal: controller.signal, dispose: () => unregisters.forEach((unregister) => unregister()) };
+}
+
+/**
+ * Marks where an element's output begins or ends when rendering with provenance. Boundaries are only ever
+ * produced by the renderer's own recursive renders, and are removed by the top-level render.
+ */
+function ProvenanceBoundary(_: { renderId: string; tag: string; isEnd: boolean }): Node {
+  return null;
+}
+
+function provenanceBoundary(renderId: string, element: Element<any>, isEnd: boolean): Element<any> {
+  const props = { renderId, tag: element.tag.name, isEnd };
+  return Object.freeze({ tag: ProvenanceBoundary, props: Object.freeze(props), render: () => null });
+}
+
+/** @hidden */
+export function isProvenanceBoundary(value: PartiallyRendered) {
+  return isElement(value) && value.tag === ProvenanceBoundary;
+}
+
+/**
+ * Converts output that includes provenance boundaries into text and the spans produced by each element.
+ */
+function collectProvenance(parts: PartiallyRendered[]): RenderedWithProvenance {
+  let text = '';
+  const spans: ProvenanceSpan[] = [];
+  const openSpans: ProvenanceSpan[] = [];
+  for (const part of parts) {
+    if (typeof part === 'string') {
+      text += part;
+    } else if (isProvenanceBoundary(part)) {
+      const { renderId, tag, isEnd } = (part as Element<PropsOfBoundary>).props;
+      if (isEnd) {
+        const span = openSpans.pop();
+        if (span) {
+          span.end = text.length;
+        }
+      } else {
+        const parentPath = openSpans.length > 0 ? openSpans[openSpans.length - 1].path : [];
+        const span = { start: text.length, end: text.length, renderId, tag, path: [...parentPath, tag] };
+        spans.push(span);
+        openSpans.push(span);
+      }
+    }
+  }
+
+  return { text, spans: spans.filter((span) => span.end > span.start) };
+}
+
+type PropsOfBoundary = Parameters<typeof ProvenanceBoundary>[0];
 
 async function* renderStream(
   context: RenderContext,
   renderable: Renderable,
   shouldStop: ElementPredicate,
-  appendOnly: boolean
+  appendOnly: boolean,
+  provenance: boolean = false
 ): AsyncGenerator<PartiallyRendered[], PartiallyRendered[]> {
   // If we recurse, propagate the stop function but ensure that intermediate values are preserved.
   const recursiveRenderOpts: RenderOpts<PartiallyRendered[], PartiallyRendered[]> = {
     stop: shouldStop,
     map: (frame) => frame,
     appendOnly,
+    provenance,
   };
 
   if (typeof renderable === 'string') {
@@ -213,6 +618,12 @@ async function* renderStream(
   if (typeof renderable === 'undefined' || typeof renderable === 'boolean' || renderable === null) {
     return [];
   }
+
+  const signal = context.getContext(AbortSignalContext);
+  if (signal.aborted) {
+    throw abortError(signal);
+  }
+
   if (isIndirectNode(renderable)) {
     return yield* context.render(getReferencedNode(renderable), recursiveRenderOpts);
   }
@@ -268,21 +679,32 @@ async function* renderStream(
     };
     const remainingPromises = () => inProgressRenders.flatMap((r) => (r.currentPromise ? [r.currentPromise] : []));
 
-    // Wait for each sub-generator to yield once.
-    const pendingUpdates = await Promise.all(remainingPromises());
-    pendingUpdates.forEach((apply) => apply());
+    try {
+      // Wait for each sub-generator to yield once.
+      const pendingUpdates = await abortable(Promise.all(remainingPromises()), signal);
+      pendingUpdates.forEach((apply) => apply());
 
-    let remaining = remainingPromises();
-    while (remaining.length > 0) {
-      yield currentValue();
+      let remaining = remainingPromises();
+      while (remaining.length > 0) {
+        yield currentValue();
 
-      // Each time a promise resolves with a new value, yield again.
-      const nextApply = await Promise.race(remaining);
-      nextApply();
-      remaining = remainingPromises();
-    }
+        // Each time a promise resolves with a new value, yield again.
+        const nextApply = await abortable(Promise.race(remaining), signal);
+        nextApply();
+        remaining = remainingPromises();
+      }
 
-    return currentValue();
+      return currentValue();
+    } finally {
+      // If we're exiting early (e.g. because a sibling threw or rendering was aborted), tear down any
+      // renders that are still in progress.
+      for (const inProgressRender of inProgressRenders) {
+        if (inProgressRender.currentPromise !== null) {
+          inProgressRender.currentPromise.catch(() => {});
+          inProgressRender.generator.return?.([])?.catch(() => {});
+        }
+      }
+    }
   }
   if (isElement(renderable)) {
     if (shouldStop(renderable)) {
@@ -294,13 +716,32 @@ async function* renderStream(
       }
       return [renderable];
     }
-    const renderingContext = attachedContext(renderable) ?? context;
-    if (renderingContext !== context) {
-      // We need to switch contexts before we can render the element.
-      return yield* renderingContext.render(renderable, recursiveRenderOpts);
+    const attached = attachedContext(renderable);
+    if (attached && attached[memoKeySymbol] !== context[memoKeySymbol]) {
+      // We need to switch contexts before we can render the element. Rendering is still attributed to the current parent.
+      return yield* attached[withParentRenderIdSymbol](context[parentRenderIdSymbol]).render(
+        renderable,
+        recursiveRenderOpts
+      );
     }
-    const logImpl = renderingContext.getContext(LoggerContext);
+    const logImpl = context.getContext(LoggerContext);
+    const hooks = context.getContext(RenderHooksContext);
     const renderId = uuidv4();
+    const info: ElementRenderInfo = {
+      renderId,
+      parentRenderId: context[parentRenderIdSymbol],
+      element: renderable,
+      startTime: Date.now(),
+    };
+    const elementContext = context[withParentRenderIdSymbol](renderId);
+    // When rendering with provenance, bracket the element's output with boundaries. (Hooks don't see them.)
+    const withBoundaries = (frame: PartiallyRendered[]) =>
+      provenance
+        ? [provenanceBoundary(renderId, renderable, false), ...frame, provenanceBoundary(renderId, renderable, true)]
+        : frame;
+    const withoutBoundaries = (frame: PartiallyRendered[]) =>
+      provenance ? frame.filter((e) => !isProvenanceBoundary(e)) : frame;
+    let output: PartiallyRendered[] | undefined;
     try {
       /**
        * This approach is pretty noisy because there are many internal components about which the users don't care.
@@ -310,15 +751,28 @@ async function* renderStream(
        * To get around this, maybe we want components to be able to choose the loglevel used for their rendering.
        */
       logImpl.log('debug', renderable, renderId, 'Start rendering element');
-      const finalResult = yield* renderingContext.render(
-        renderable.render(renderingContext, new BoundLogger(logImpl, renderId, renderable)),
+      hooks.forEach((h) => h.onElementStart?.(info));
+      const renderResult = elementContext.render(
+        renderable.render(elementContext, new BoundLogger(logImpl, renderId, renderable)),
         recursiveRenderOpts
       );
-      logImpl.log('debug', renderable, renderId, { finalResult }, 'Finished rendering element');
-      return finalResult;
+      for await (const frame of renderResult) {
+        if (hooks.length > 0) {
+          const hookFrame = withoutBoundaries(frame);
+          hooks.forEach((h) => h.onFrame?.({ ...info, frame: hookFrame }));
+        }
+        yield withBoundaries(frame);
+      }
+      const finalResult = await renderResult;
+      output = withoutBoundaries(finalResult);
+      logImpl.log('debug', renderable, renderId, { finalResult: output }, 'Finished rendering element');
+      return withBoundaries(finalResult);
     } catch (ex) {
       logImpl.logException(renderable, renderId, ex);
+      hooks.forEach((h) => h.onError?.({ ...info, error: ex }));
       throw ex;
+    } finally {
+      hooks.forEach((h) => h.onElementEnd?.({ ...info, endTime: Date.now(), output }));
     }
   }
 
@@ -327,34 +781,44 @@ async function* renderStream(
     const iterator = renderable[Symbol.asyncIterator]();
     let lastValue = [] as PartiallyRendered[];
     let isAppendOnlyStream = false;
-    while (true) {
-      const next = await iterator.next();
-      if (next.value === AppendOnlyStream) {
-        // TODO: I'd like to emit a log here indicating that an element has chosen to AppendOnlyStream,
-        // but I'm not sure what the best way is to know which element/renderId produced `renderable`.
-        isAppendOnlyStream = true;
-      } else if (isAppendOnlyStream) {
-        const renderResult = context.render(next.value, recursiveRenderOpts);
-        for await (const frame of renderResult) {
-          yield lastValue.concat(frame);
+    let isDone = false;
+    try {
+      while (true) {
+        const next = await abortable(iterator.next(), signal);
+        isDone = Boolean(next.done);
+        if (next.value === AppendOnlyStream) {
+          // TODO: I'd like to emit a log here indicating that an element has chosen to AppendOnlyStream,
+          // but I'm not sure what the best way is to know which element/renderId produced `renderable`.
+          isAppendOnlyStream = true;
+        } else if (isAppendOnlyStream) {
+          const renderResult = context.render(next.value, recursiveRenderOpts);
+          for await (const frame of renderResult) {
+            yield lastValue.concat(frame);
+          }
+          lastValue = lastValue.concat(await renderResult);
+        } else if (appendOnly && !next.done) {
+          // Subsequently yielded values might not be append-only, so we can't yield them. (But
+          // if this iterator is `done` then we rely on the recursive call to decide when it's safe
+          // to yield.)
+          lastValue = await context.render(next.value, recursiveRenderOpts);
+        } else {
+          lastValue = yield* context.render(next.value, recursiveRenderOpts);
         }
-        lastValue = lastValue.concat(await renderResult);
-      } else if (appendOnly && !next.done) {
-        // Subsequently yielded values might not be append-only, so we can't yield them. (But
-        // if this iterator is `done` then we rely on the recursive call to decide when it's safe
-        // to yield.)
-        lastValue = await context.render(next.value, recursiveRenderOpts);
-      } else {
-        lastValue = yield* context.render(next.value, recursiveRenderOpts);
-      }
 
-      if (next.done) {
-        return lastValue;
-      }
+        if (next.done) {
+          return lastValue;
+        }
 
-      // Only append-only streams can yield for an append-only render.
-      if (!appendOnly || isAppendOnlyStream) {
-        yield lastValue;
+        // Only append-only streams can yield for an append-only render.
+        if (!appendOnly || isAppendOnlyStream) {
+          yield lastValue;
+        }
+      }
+    } finally {
+      if (!isDone) {
+        // The iterator was abandoned before it completed (e.g. because rendering was aborted or a
+        // consumer stopped iterating), so give it a chance to clean up.
+        iterator.return?.()?.catch(() => {});
       }
     }
   }
@@ -368,25 +832,78 @@ async function* renderStream(
   }
   // N.B. Because RenderResults are both AsyncIterable _and_ PromiseLikes, this means that an async component that returns the result
   // of a render call will not stream; it will effectively be `await`ed by default.
-  const nextRenderable = await renderable.then((r) => r as Exclude<Renderable, PromiseLike<Renderable>>);
+  const nextRenderable = await abortable(
+    renderable.then((r) => r as Exclude<Renderable, PromiseLike<Renderable>>),
+    signal
+  );
   return yield* context.render(nextRenderable, recursiveRenderOpts);
 }
 
 /**
  * Creates a new {@link RenderContext} with the provided logger.
  * @param logger The logger to use for the new context. If not provided, a new {@link PinoLogger} will be created.
+ * @param contexts Values for contexts, as pairs of a {@link Context} and its value. Elements rendered in the new
+ *   context see these values unless they're overridden by a `Provider`.
+ * @param signal An `AbortSignal` that aborts any in-flight renders (including model calls) when it is aborted.
+ * @param deadlineMs A time budget, in milliseconds from when the context is created, for all renders in this context.
+ *   Once it elapses, in-flight renders are aborted with a {@link DeadlineExceededError}.
+ * @param hooks {@link RenderHooks} to call as elements are rendered.
  * @returns A new RenderContext.
  */
-export function createRenderContext(opts?: { logger?: LogImplementation }) {
+export function createRenderContext<TContextValues extends unknown[] = []>(opts?: {
+  logger?: LogImplementation;
+  signal?: AbortSignal;
+  deadlineMs?: number;
+  hooks?: RenderHooks;
+  contexts?: [...ContextValues<TContextValues>];
+}) {
   const logger = opts?.logger ?? new PinoLogger();
-  return createRenderContextInternal(renderStream, {
-    [LoggerContext[contextKey].userContextSymbol]: logger,
-  });
+  let signal = opts?.signal;
+  let deadline = Infinity;
+  if (opts?.deadlineMs !== undefined) {
+    const deadlineMs = opts.deadlineMs;
+    const abortController = new AbortController();
+    const deadlineSignal = anySignal([signal ?? neverAbortedSignal, abortController.signal]);
+    const timer = setTimeout(() => {
+      abortController.abort(new DeadlineExceededError(deadlineMs));
+      // Once the deadline has passed, there's no need to follow `opts.signal` any more.
+      deadlineSignal.dispose();
+    }, deadlineMs);
+    // Don't keep Node processes alive just to enforce the deadline.
+    if (typeof timer === 'object' && 'unref' in timer) {
+      timer.unref();
+    }
+
+    deadline = Date.now() + deadlineMs;
+    signal = deadlineSignal.signal;
+  }
+
+  const contextValues: ContextValues<any[]> = [
+    ...(opts?.contexts ?? []),
+    [LoggerContext, logger],
+    ...(signal ? [[AbortSignalContext, signal] as const] : []),
+    ...(deadline !== Infinity ? [[DeadlineContext, deadline] as const] : []),
+    ...(opts?.hooks ? [[RenderHooksContext, [opts.hooks]] as const] : []),
+  ];
+  return createRenderContextInternal(
+    renderStream,
+    Object.fromEntries(contextValues.map((entry) => [entry[0][contextKey].userContextSymbol, entry]))
+  );
 }
 
-function createRenderContextInternal(renderStream: StreamRenderer, userContext: Record<symbol, any>): RenderContext {
+/**
+ * Maps each context's `userContextSymbol` to the context and its value.
+ */
+type UserContext = Record<symbol, readonly [Context<any>, any]>;
+
+function createRenderContextInternal(
+  renderStream: StreamRenderer,
+  userContext: UserContext,
+  parentRenderId: string | null = null,
+  memoKey: object = {}
+): RenderContext {
   const context: RenderContext = {
-    render: <TFinal extends string | PartiallyRendered[], TIntermediate>(
+    render: <TFinal extends string | PartiallyRendered[] | RenderedWithProvenance, TIntermediate>(
       renderable: Renderable,
       opts?: RenderOpts<TIntermediate, TFinal>
     ): RenderResult<TIntermediate, TFinal> => {
@@ -397,27 +914,58 @@ function createRenderContextInternal(renderStream: StreamRenderer, userContext:
       const generator = (async function* () {
         // eslint-disable-next-line @typescript-eslint/prefer-nullish-coalescing
         const shouldStop = (opts?.stop || (() => false)) as ElementPredicate;
-        const generatorToWrap = renderStream(context, renderable, shouldStop, Boolean(opts?.appendOnly));
-        while (true) {
-          const next = await generatorToWrap.next();
-          const value = opts?.stop ? (next.value as TFinal) : (next.value.join('') as TFinal);
-          if (next.done) {
-            if (promiseResult === null) {
-              promiseResult = Promise.resolve(value);
+        const renderSignal = opts?.signal ? anySignal([context.getContext(AbortSignalContext), opts.signal]) : null;
+        const renderingContext = renderSignal
+          ? context[pushContextSymbol](AbortSignalContext, renderSignal.signal)
+          : context;
+        const renderedFrames = renderStream(
+          renderingContext,
+          renderable,
+          shouldStop,
+          Boolean(opts?.appendOnly),
+          Boolean(opts?.provenance)
+        );
+        const generatorToWrap = opts?.coalesce
+          ? coalesceFrames(renderedFrames, opts.coalesce === true ? {} : opts.coalesce)
+          : renderedFrames;
+        let isDone = false;
+        try {
+          while (true) {
+            const next = await generatorToWrap.next();
+            isDone = Boolean(next.done);
+            // Partial renders preserve provenance boundaries so that recursive renders can propagate them.
+            const value = opts?.stop
+              ? (next.value as TFinal)
+              : opts?.provenance
+              ? (collectProvenance(next.value) as TFinal)
+              : (next.value.join('') as TFinal);
+            if (next.done) {
+              if (promiseResult === null) {
+                promiseResult = Promise.resolve(value);
+              }
+              return value;
             }
-            return value;
-          }
 
-          if (opts?.map) {
-            // If there's a mapper provided, use it.
-            yield opts.map(value);
-          } else if (opts?.stop) {
-            // If we're doing partial rendering, exclude any elements we stopped on (to avoid accidentally leaking elements up).
-            yield (value as PartiallyRendered[]).filter((e) => !isElement(e)).join('');
-          } else {
-            // Otherwise yield the (string) value as-is.
-            yield value;
+            if (opts?.map) {
+              // If there's a mapper provided, use it.
+              yield opts.map(value);
+            } else if (opts?.stop) {
+              // If we're doing partial rendering, exclude any elements we stopped on (to avoid accidentally leaking elements up).
+              yield (value as PartiallyRendered[]).filter((e) => !isElement(e)).join('');
+            } else if (opts?.provenance) {
+              yield (value as RenderedWithProvenance).text;
+            } else {
+              // Otherwise yield the (string) value as-is.
+              yield value;
+            }
+          }
+        } finally {
+          if (!isDone) {
+            // Propagate early termination to the underlying renderer so it can tear down in-progress elements.
+            generatorToWrap.return([]).catch(() => {});
           }
+          // Stop following the signals once the render has settled, so that they don't keep it alive.
+          renderSignal?.dispose();
         }
       })() as AsyncGenerator<TIntermediate, TFinal>;
 
@@ -471,20 +1019,36 @@ function createRenderContextInternal(renderStream: StreamRenderer, userContext:
     getContext: (ref) => {
       const { defaultValue, userContextSymbol } = ref[contextKey];
       if (userContextSymbol in userContext) {
-        return userContext[userContextSymbol];
+        return userContext[userContextSymbol][1];
       }
       return defaultValue;
     },
 
+    getContextValues: () => Object.getOwnPropertySymbols(userContext).map((symbol) => userContext[symbol]),
+
     memo: (renderable) => withContext(partialMemo(renderable), context),
 
-    wrapRender: (getRenderStream) => createRenderContextInternal(getRenderStream(renderStream), userContext),
+    wrapRender: (getRenderStream) =>
+      createRenderContextInternal(getRenderStream(renderStream), userContext, parentRenderId),
+
+    addHooks: (hooks) =>
+      context[pushContextSymbol](RenderHooksContext, [...context.getContext(RenderHooksContext), hooks]),
 
     [pushContextSymbol]: (contextReference, value) =>
-      createRenderContextInternal(renderStream, {
-        ...userContext,
-        [contextReference[contextKey].userContextSymbol]: value,
-      }),
+      createRenderContextInternal(
+        renderStream,
+        {
+          ...userContext,
+          [contextReference[contextKey].userContextSymbol]: [contextReference, value],
+        },
+        parentRenderId
+      ),
+
+    [parentRenderIdSymbol]: parentRenderId,
+
+    [withParentRenderIdSymbol]: (renderId) => createRenderContextInternal(renderStream, userContext, renderId, memoKey),
+
+    [memoKeySymbol]: memoKey,
   };
 
   return context;
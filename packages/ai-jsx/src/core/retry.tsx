@@ -0,0 +1,140 @@
+/**
+ * This module provides a component for retrying subtrees that fail with transient errors.
+ * @packageDocumentation
+ */
+
+import { ComponentContext, Node, abortError, onAbort } from '../index.js';
+import { AIJSXError, ErrorCode, HttpError } from './errors.js';
+import { getRemainingTime } from './deadline.js';
+
+/**
+ * Determines how long to wait before a retry. `retry` is 1 for the first retry, 2 for the second, and so on.
+ */
+export type BackoffPolicy = (retry: number) => number;
+
+/**
+ * Creates a {@link BackoffPolicy} that waits `initialMs` before the first retry, and `factor` times longer before
+ * each subsequent one, up to `maxMs`. With `jitter`, each delay is randomized between half and all of that.
+ */
+export function exponentialBackoff({
+  initialMs = 500,
+  factor = 2,
+  maxMs = 30_000,
+  jitter = true,
+}: { initialMs?: number; factor?: number; maxMs?: number; jitter?: boolean } = {}): BackoffPolicy {
+  return (retry) => {
+    const delay = Math.min(maxMs, initialMs * factor ** (retry - 1));
+    return jitter ? delay * (0.5 + Math.random() / 2) : delay;
+  };
+}
+
+/**
+ * Whether an error is likely to be transient: an {@link HttpError} with status code 429 or 5xx, or any other
+ * {@link AIJSXError} blamed on the runtime (other than rendering being aborted, running out of time or budget, or
+ * `UseTools` reaching a limit on tool use).
+ */
+export function isTransientError(error: unknown) {
+  if (error instanceof HttpError) {
+    return error.statusCode === 429 || error.statusCode >= 500;
+  }
+  return (
+    error instanceof AIJSXError &&
+    error.blame === 'runtime' &&
+    error.code !== ErrorCode.RenderAborted &&
+    error.code !== ErrorCode.DeadlineExceeded &&
+    error.code !== ErrorCode.BudgetExceeded &&
+    error.code !== ErrorCode.ToolUseLimitReached
+  );
+}
+
+/**
+ * Gets how long an {@link HttpError}'s `Retry-After` response header asks to wait, in milliseconds.
+ */
+function retryAfterMs(error: unknown): number | undefined {
+  if (!(error instanceof HttpError) || !error.responseHeaders) {
+    return undefined;
+  }
+
+  const header = Object.entries(error.responseHeaders).find(([name]) => name.toLowerCase() === 'retry-after')?.[1];
+  if (header === undefined) {
+    return undefined;
+  }
+
+  // The header is either a number of seconds or an HTTP date.
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    let unregister = () => {};
+    const timer = setTimeout(() => {
+      unregister();
+      resolve();
+    }, ms);
+    unregister = onAbort(signal, () => {
+      clearTimeout(timer);
+      reject(abortError(signal));
+    });
+  });
+}
+
+/**
+ * Renders its children, rendering them again if they throw a retryable error. Each attempt starts over, so
+ * partially-streamed output from a failed attempt is replaced.
+ *
+ * By default, transient errors are retried (see {@link isTransientError}). Retries wait according to `backoff`,
+ * unless an {@link HttpError} asks to wait longer with a `Retry-After` header. If the wait would exceed an enclosing
+ * deadline (see `Deadline`), the error is thrown instead. Each retry is logged as a warning.
+ *
+ * @example
+ * ```tsx
+ *  <Retry attempts={5}>
+ *    <ChatCompletion>
+ *      <UserMessage>Write me a poem.</UserMessage>
+ *    </ChatCompletion>
+ *  </Retry>
+ * ```
+ *
+ * @note Children that were memoized with `memo` render only once, so they aren't retried.
+ */
+export async function* Retry(
+  {
+    children,
+    attempts = 3,
+    backoff = exponentialBackoff(),
+    retryOn = isTransientError,
+  }: {
+    children: Node;
+    /** The maximum number of times to render the children, including the first. */
+    attempts?: number;
+    /** How long to wait (in milliseconds) before each retry, or a {@link BackoffPolicy}. */
+    backoff?: number | BackoffPolicy;
+    /** Determines whether an error should be retried. */
+    retryOn?: (error: unknown) => boolean;
+  },
+  { render, logger, signal, getContext }: ComponentContext
+) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return yield* render(children);
+    } catch (ex) {
+      if (attempt >= attempts || signal.aborted || !retryOn(ex)) {
+        throw ex;
+      }
+
+      const backoffMs = typeof backoff === 'number' ? backoff : backoff(attempt);
+      const delayMs = Math.max(backoffMs, retryAfterMs(ex) ?? 0);
+      if (delayMs > getRemainingTime({ getContext })) {
+        throw ex;
+      }
+
+      logger.warn({ attempt, attempts, delayMs, error: `${ex}` }, `Attempt ${attempt} failed; retrying.`);
+      await sleep(delayMs, signal);
+    }
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * This module provides the {@link Samples} and {@link BestOf} components, which sample several responses to the same
+ * prompt.
+ * @packageDocumentation
+ */
+
+import _ from 'lodash';
+import * as AI from '../index.js';
+import { ComponentContext, Node, RenderContext } from '../index.js';
+import { ChatCompletion, SystemMessage, UserMessage } from './completion.js';
+import { AIJSXError, ErrorCode } from './errors.js';
+
+/** The choices of a request made on behalf of one or more samples. */
+interface SharedChoices {
+  /** Called once no sample is using the choices any more. */
+  close(): void;
+}
+
+interface SharedRequest<T extends SharedChoices> {
+  choices: T;
+  /** The samples that have been given one of the choices. */
+  indices: Set<number>;
+  /** How many samples are still using the choices. */
+  users: number;
+}
+
+interface Sampling {
+  n: number;
+  index: number;
+  /** The requests made by the samples so far, by key. */
+  requests: Map<string, SharedRequest<any>>;
+}
+
+const samplingContext = AI.createContext<Sampling | null>(null, 'Samples');
+
+/**
+ * One of the samples rendered by {@link Samples}.
+ */
+export function Sample({ children }: { /** Which sample this is, starting from 0. */ index: number; children: Node }) {
+  return children;
+}
+
+/**
+ * Renders its children `n` times, as separate {@link Sample}s. Each sample is rendered independently, so a
+ * `ChatCompletion` in the children generates `n` different responses (unless its temperature is 0).
+ *
+ * Models that can generate several responses to one request (like OpenAI's) are called once for all of the samples.
+ * For other models, the samples make their requests in parallel.
+ *
+ * To handle the samples separately, e.g. to stream each of them, stop at the `Sample`s:
+ *
+ * @example
+ * ```tsx
+ *    const samples = await render(
+ *      <Samples n={3}>
+ *        <ChatCompletion>
+ *          <UserMessage>Write a tagline for an ice cream shop.</UserMessage>
+ *        </ChatCompletion>
+ *      </Samples>,
+ *      { stop: (e) => e.tag === Sample }
+ *    );
+ *    for (const sample of samples) {
+ *      for await (const frame of render(sample)) { ... }
+ *    }
+ * ```
+ *
+ * To pick the best of the samples, see {@link BestOf}.
+ */
+export function Samples({ n, children }: { /** The number of samples. */ n: number; children: Node }) {
+  if (!Number.isInteger(n) || n < 1) {
+    throw new AIJSXError(
+      `Samples needs a positive whole number of samples, but got ${n}.`,
+      ErrorCode.SamplesBadInput,
+      'user'
+    );
+  }
+
+  const requests = new Map<string, SharedRequest<any>>();
+  return _.range(n).map((index) => (
+    <Sample index={index}>
+      <samplingContext.Provider value={{ n, index, requests }}>{children}</samplingContext.Provider>
+    </Sample>
+  ));
+}
+
+/**
+ * Makes a request for one or more choices, sharing it with the other samples of the enclosing {@link Samples} (if
+ * there is one).
+ *
+ * This is for model components that can generate several responses to one request. Under `Samples`, the first
+ * sample to make a request asks for `n` choices, and the other samples that make the same request (with the same
+ * `key`) use the remaining choices rather than making requests of their own. Otherwise, one choice is requested.
+ *
+ * @param key Identifies the request, e.g. by serializing it.
+ * @param request Makes the request for `n` choices.
+ * @returns The choices, which of them to use, and a function to call once done with them. The choices are closed once
+ * every sample has been given one and is done with it, so samples can be rendered one after another.
+ * @hidden
+ */
+export function shareChoices<T extends SharedChoices>(
+  key: string,
+  request: (n: number) => T,
+  { getContext }: Pick<RenderContext, 'getContext'>
+): { choices: T; index: number; release: () => void } {
+  const sampling = getContext(samplingContext);
+  if (!sampling) {
+    const choices = request(1);
+    return { choices, index: 0, release: () => choices.close() };
+  }
+
+  const { n, index, requests } = sampling;
+  // A request is done with once no more samples can be given its choices, and none are still using them.
+  const closeIfDone = (shared: SharedRequest<T>) => {
+    const retired = shared.indices.size === n || requests.get(key) !== shared;
+    if (retired && shared.users === 0) {
+      if (requests.get(key) === shared) {
+        requests.delete(key);
+      }
+      shared.choices.close();
+    }
+  };
+
+  let shared = requests.get(key) as SharedRequest<T> | undefined;
+  if (!shared || shared.indices.has(index)) {
+    // This sample has already used its choice of the earlier request, so make another.
+    const earlier = shared;
+    shared = { choices: request(n), indices: new Set(), users: 0 };
+    requests.set(key, shared);
+    if (earlier) {
+      closeIfDone(earlier);
+    }
+  }
+  shared.indices.add(index);
+  shared.users++;
+
+  const used = shared;
+  return {
+    choices: used.choices,
+    index,
+    release: () => {
+      used.users--;
+      closeIfDone(used);
+    },
+  };
+}
+
+/**
+ * Scores a sample for {@link BestOf}. Higher scores are better.
+ */
+export type SampleScorer = (sample: string) => number | Promise<number>;
+
+/**
+ * Has the model pick the best of `samples`, returning its index.
+ */
+async function judgeSamples(samples: string[], criteria: Node, { render, logger }: ComponentContext) {
+  // As in `NaturalLanguageRouter`, the samples are labelled with numbers of equal length, and the model is kept to
+  // digits.
+  const labelLength = String(samples.length - 1).length;
+  const label = (index: number) => String(index).padStart(labelLength, '0');
+  const logitBias = Object.fromEntries(_.range(10).map((digit) => [digit.toString(), 100]));
+
+  const verdict = await render(
+    <ChatCompletion maxTokens={labelLength} logitBias={logitBias}>
+      <SystemMessage>
+        You are an impartial judge. You will be shown several candidate responses, each labelled with a number, and you
+        must pick the best one.{criteria ? ' Judge them by these criteria: ' : null}
+        {criteria}
+        {'\n\n'}
+        Respond with the number of the best candidate. Do not respond with any other text.
+      </SystemMessage>
+      <UserMessage>
+        {samples.map((sample, index) => `Candidate ${label(index)}:\n${sample}\n\n`)}
+        Which candidate is best?
+      </UserMessage>
+    </ChatCompletion>
+  );
+
+  const index = parseInt(verdict.slice(0, labelLength));
+  if (!(index in samples)) {
+    logger.warn({ verdict }, "The judge's verdict wasn't one of the samples, so the first sample was picked");
+    return 0;
+  }
+  return index;
+}
+
+/**
+ * Renders its children `n` times (as {@link Samples} does) and picks the best of the results.
+ *
+ * The `judge` decides which sample is best. It can be a function that scores each sample, in which case the one with
+ * the highest score wins (or the first of them, in a tie). Samples whose scores aren't finite numbers (e.g. `NaN`)
+ * are never picked, unless none of the scores are. Otherwise, a `ChatCompletion` picks the best sample,
+ * judging by the criteria given in `judge` (if any). The criteria should describe the task, since the model doesn't
+ * see the prompt that produced the samples.
+ *
+ * @example
+ * ```tsx
+ *    <BestOf n={3} judge="Which tagline is the catchiest?">
+ *      <ChatCompletion>
+ *        <UserMessage>Write a tagline for an ice cream shop.</UserMessage>
+ *      </ChatCompletion>
+ *    </BestOf>
+ * ```
+ */
+export async function BestOf(
+  {
+    n,
+    judge,
+    children,
+  }: {
+    /** The number of samples to pick from. */
+    n: number;
+    /** How to pick the best sample: a function that scores each sample, or criteria for a model to judge them by. */
+    judge?: SampleScorer | Node;
+    children: Node;
+  },
+  context: ComponentContext
+) {
+  const { render, logger } = context;
+  const rendered = await render(<Samples n={n}>{children}</Samples>, { stop: (e) => e.tag === Sample });
+  const samples = await Promise.all(rendered.filter(AI.isElement).map((sample) => render(sample)));
+  if (samples.length === 1) {
+    return samples[0];
+  }
+
+  let best: number;
+  if (typeof judge === 'function') {
+    const scores = await Promise.all(samples.map((sample) => judge(sample)));
+    best = 0;
+    let bestScore = -Infinity;
+    for (const [index, score] of scores.entries()) {
+      if (Number.isFinite(score) && score > bestScore) {
+        best = index;
+        bestScore = score;
+      }
+    }
+    if (bestScore === -Infinity) {
+      logger.warn({ scores }, 'None of the scores were finite numbers, so the first sample was picked');
+    }
+  } else {
+    best = await judgeSamples(samples, judge, context);
+  }
+  logger.debug({ samples, best }, 'Picked the best sample');
+  return samples[best];
+}
@@ -0,0 +1,363 @@
+/**
+ * This module provides the {@link Shrinkable} component, which marks parts of a prompt that may be shrunk to fit the
+ * model's context window.
+ * @packageDocumentation
+ */
+
+import * as AI from '../index.js';
+import { Node, RenderContext } from '../index.js';
+import { Logger } from './log.js';
+import {
+  AssistantMessage,
+  FunctionCall,
+  FunctionDefinition,
+  FunctionResponse,
+  getParametersSchema,
+  SystemMessage,
+  UserMessage,
+} from './completion.js';
+import { Tokenizer } from './tokenizer.js';
+
+/**
+ * Marks part of a `ChatCompletion`'s prompt that may be shrunk if the prompt doesn't fit in the model's context
+ * window.
+ *
+ * Before calling the chat model, `ChatCompletion` counts the tokens in the prompt. If there are too many to leave
+ * room for `maxTokens` in the model's context window (see {@link contextWindowForModel}), the least important
+ * `Shrinkable` is replaced by its `replacement` (or dropped, if it has none), and so on until the prompt fits. Among `Shrinkable`s of equal
+ * importance, those that come first are shrunk first.
+ *
+ * `Shrinkable`s can be nested, either in each other's children or in a `replacement`: those in a replacement may be
+ * shrunk once it's been swapped in, and those in the children of a `Shrinkable` that's been shrunk are gone too.
+ *
+ * Prompts without `Shrinkable`s are passed to the model as they are, without counting their tokens. To be found,
+ * `Shrinkable`s have to be in the elements given to `ChatCompletion` (in their children or other props), rather than
+ * only being created by components as they render.
+ *
+ * @example
+ * ```tsx
+ *    <ChatCompletion>
+ *      <SystemMessage>
+ *        Answer the question using these excerpts:
+ *        {chunks.map((chunk, i) => (
+ *          <Shrinkable importance={-i} replacement={<Summary>{chunk}</Summary>}>
+ *            {chunk}
+ *          </Shrinkable>
+ *        ))}
+ *      </SystemMessage>
+ *      {history.map((message, i) => (
+ *        <Shrinkable importance={i}>{message}</Shrinkable>
+ *      ))}
+ *      <UserMessage>{question}</UserMessage>
+ *    </ChatCompletion>
+ * ```
+ */
+export function Shrinkable({
+  children,
+}: {
+  /** How important the content is. Less important content is shrunk first. */
+  importance: number;
+  /** What to replace the content with once it's shrunk. If unspecified, the content is dropped. */
+  replacement?: Node;
+  children: Node;
+}) {
+  return children;
+}
+
+/**
+ * Returns the size of `model`'s context window, in tokens, or `undefined` if it isn't known.
+ *
+ * To fit prompts to a model that isn't listed here, pass its `contextWindow` to `ChatCompletion` or `ChatProvider`.
+ */
+export function contextWindowForModel(model: string): number | undefined {
+  if (model.startsWith('gpt-4-32k')) {
+    return 32768;
+  }
+  if (model.startsWith('gpt-4')) {
+    return 8192;
+  }
+  if (model.startsWith('gpt-3.5-turbo-16k')) {
+    return 16384;
+  }
+  if (model.startsWith('gpt-3.5-turbo')) {
+    return 4096;
+  }
+  if (model.startsWith('claude-')) {
+    return model === 'claude-1' || model === 'claude-instant-1' || model.endsWith('-100k') ? 100000 : 9000;
+  }
+  return undefined;
+}
+
+/**
+ * If `maxTokens` isn't specified, the number of tokens left in a chat model's context window for its reply when the
+ * prompt is shrunk to fit.
+ */
+export const defaultReplyTokens = 500;
+
+/**
+ * Returns whether `node` has any {@link Shrinkable}s in it, looking through elements' props but without rendering.
+ * @hidden
+ */
+export function containsShrinkable(node: unknown): boolean {
+  if (Array.isArray(node)) {
+    return node.some(containsShrinkable);
+  }
+  if (AI.isIndirectNode(node)) {
+    return containsShrinkable(AI.getReferencedNode(node));
+  }
+  if (AI.isElement(node)) {
+    return node.tag === Shrinkable || Object.values(node.props).some(containsShrinkable);
+  }
+  return false;
+}
+
+/** A prompt, partially rendered so that its {@link Shrinkable}s can be shrunk without rendering it again. */
+type ExpandedNode = (string | ExpandedElement | ExpandedShrinkable)[];
+
+interface ExpandedElement {
+  element: AI.Element<any>;
+  /** The expanded children of a message, or `undefined` if the element should be left as it is. */
+  children?: ExpandedNode;
+}
+
+interface ExpandedShrinkable {
+  importance: number;
+  children: ExpandedNode;
+  replacement: ExpandedNode;
+  shrunk: boolean;
+  /** Whether the `Shrinkable` is gone because one it's nested in was shrunk. */
+  removed: boolean;
+  /** Where the `Shrinkable` comes in the prompt, to break ties in importance. */
+  order: number;
+  /** The tokens in `children` and `replacement`, as they are now. */
+  childrenTokens: number;
+  replacementTokens: number;
+  /** The `Shrinkable` this one is nested in, if any. */
+  parent?: { shrinkable: ExpandedShrinkable; inReplacement: boolean };
+}
+
+function isMessage(element: AI.Element<any>) {
+  return (
+    element.tag === SystemMessage ||
+    element.tag === UserMessage ||
+    element.tag === AssistantMessage ||
+    element.tag === FunctionCall ||
+    element.tag === FunctionResponse
+  );
+}
+
+/**
+ * Renders `node` until it's made up of strings, {@link Shrinkable}s and chat messages, and does the same to the
+ * messages' contents.
+ */
+async function expand(node: Node, render: RenderContext['render'], inMessage: boolean): Promise<ExpandedNode> {
+  const parts = await render(node, {
+    stop: (e) => e.tag === Shrinkable || (!inMessage && isMessage(e)),
+  });
+
+  return Promise.all(
+    parts.map(async (part): Promise<ExpandedNode[number]> => {
+      if (typeof part === 'string') {
+        return part;
+      }
+      if (part.tag === Shrinkable) {
+        const { importance, replacement, children } = part.props as AI.PropsOfComponent<typeof Shrinkable>;
+        return {
+          importance,
+          children: await expand(children, render, inMessage),
+          replacement: await expand(replacement, render, inMessage),
+          shrunk: false,
+          removed: false,
+          order: 0,
+          childrenTokens: 0,
+          replacementTokens: 0,
+        };
+      }
+      switch (part.tag) {
+        case SystemMessage:
+        case UserMessage:
+        case AssistantMessage:
+          // Render the message itself (rather than its children) so that memoized messages stay memoized.
+          return { element: part, children: await expand(part, render, true) };
+        case FunctionResponse:
+          return { element: part, children: await expand(part.props.children, render, true) };
+        default:
+          return { element: part };
+      }
+    })
+  );
+}
+
+/**
+ * Counts the tokens in `node` as the model will see it, with each message wrapped in a few tokens of formatting.
+ * This also numbers the {@link Shrinkable}s in order, links them to the ones they're nested in, and counts the tokens
+ * in their children and replacements, so that the count can be updated as they're shrunk.
+ *
+ * @see https://github.com/openai/openai-cookbook/blob/main/examples/How_to_count_tokens_with_tiktoken.ipynb
+ */
+function measure(
+  node: ExpandedNode,
+  tokenizer: Tokenizer,
+  shrinkables: ExpandedShrinkable[],
+  parent?: ExpandedShrinkable['parent']
+): number {
+  const countTokens = (text: string) => tokenizer.encode(text).length;
+  let tokens = 0;
+  for (const part of node) {
+    if (typeof part === 'string') {
+      tokens += countTokens(part);
+    } else if ('importance' in part) {
+      part.order = shrinkables.length;
+      part.parent = parent;
+      shrinkables.push(part);
+      part.childrenTokens = measure(part.children, tokenizer, shrinkables, { shrinkable: part, inReplacement: false });
+      part.replacementTokens = measure(part.replacement, tokenizer, shrinkables, {
+        shrinkable: part,
+        inReplacement: true,
+      });
+      tokens += part.childrenTokens;
+    } else {
+      const { tag, props } = part.element;
+      switch (tag) {
+        case SystemMessage:
+          tokens += 3 + countTokens('system');
+          break;
+        case UserMessage:
+          tokens += 3 + countTokens('user') + (props.name ? 1 + countTokens(props.name) : 0);
+          break;
+        case AssistantMessage:
+          tokens += 3 + countTokens('assistant');
+          break;
+        case FunctionCall:
+          tokens += 3 + countTokens('assistant') + countTokens(props.name) + countTokens(JSON.stringify(props.args));
+          break;
+        case FunctionResponse:
+          tokens += 3 + countTokens('function') + 1 + countTokens(props.name);
+          break;
+      }
+      if (part.children) {
+        tokens += measure(part.children, tokenizer, shrinkables, parent);
+      }
+    }
+  }
+  return tokens;
+}
+
+/** Calls `fn` with every {@link Shrinkable} in `node`, including those in children and replacements. */
+function forEachShrinkable(node: ExpandedNode, fn: (shrinkable: ExpandedShrinkable) => void) {
+  for (const part of node) {
+    if (typeof part === 'string') {
+      continue;
+    }
+    if ('importance' in part) {
+      fn(part);
+      forEachShrinkable(part.children, fn);
+      forEachShrinkable(part.replacement, fn);
+    } else if (part.children) {
+      forEachShrinkable(part.children, fn);
+    }
+  }
+}
+
+/** Lists the {@link Shrinkable}s in `node` that are present, as long as none of them are shrunk. */
+function shrinkablesOf(node: ExpandedNode): ExpandedShrinkable[] {
+  return node.flatMap((part) => {
+    if (typeof part === 'string') {
+      return [];
+    }
+    if ('importance' in part) {
+      return [part, ...shrinkablesOf(part.children)];
+    }
+    return part.children ? shrinkablesOf(part.children) : [];
+  });
+}
+
+/** Turns an {@link ExpandedNode} back into a {@link Node}, with the shrunk {@link Shrinkable}s replaced. */
+function collapse(node: ExpandedNode): Node {
+  return node.map((part) => {
+    if (typeof part === 'string') {
+      return part;
+    }
+    if ('importance' in part) {
+      return collapse(part.shrunk ? part.replacement : part.children);
+    }
+    return part.children
+      ? AI.createElement(part.element.tag, part.element.props, collapse(part.children))
+      : part.element;
+  });
+}
+
+/** Orders {@link Shrinkable}s by the order they should be shrunk in. */
+function compareShrinkables(a: ExpandedShrinkable, b: ExpandedShrinkable) {
+  return a.importance - b.importance || a.order - b.order;
+}
+
+/**
+ * Shrinks the {@link Shrinkable}s in a chat model's prompt until it has no more than `tokenLimit` tokens.
+ *
+ * The prompt is rendered and its tokens are counted once. As each `Shrinkable` is shrunk, the count is updated by the
+ * difference between its children and its replacement.
+ *
+ * @param functionDefinitions The functions the model may call, which take up some of the context window too.
+ * @returns The prompt, with as many `Shrinkable`s shrunk as needed. If it can't be shrunk enough, it's returned
+ * with every `Shrinkable` shrunk.
+ * @hidden
+ */
+export async function shrinkToFit(
+  children: Node,
+  {
+    tokenLimit,
+    tokenizer,
+    functionDefinitions,
+  }: { tokenLimit: number; tokenizer: Tokenizer; functionDefinitions?: Record<string, FunctionDefinition> },
+  { render, logger }: { render: RenderContext['render']; logger: Logger }
+): Promise<Node> {
+  const expanded = await expand(children, render, false);
+  const shrinkables: ExpandedShrinkable[] = [];
+  // The reply is wrapped in a few tokens of formatting too.
+  let tokens = 3 + measure(expanded, tokenizer, shrinkables);
+  if (!shrinkables.length) {
+    return collapse(expanded);
+  }
+  if (functionDefinitions) {
+    const functions = Object.entries(functionDefinitions).map(([name, { description, parameters }]) => ({
+      name,
+      description,
+      parameters: getParametersSchema(parameters),
+    }));
+    tokens += tokenizer.encode(JSON.stringify(functions)).length;
+  }
+
+  const candidates = shrinkablesOf(expanded).sort(compareShrinkables);
+  while (tokens > tokenLimit) {
+    const leastImportant = candidates.shift();
+    if (!leastImportant) {
+      logger.warn({ tokens, tokenLimit }, "The prompt doesn't fit in the model's context window, even when shrunk");
+      break;
+    }
+    if (leastImportant.removed) {
+      continue;
+    }
+
+    leastImportant.shrunk = true;
+    const saved = leastImportant.childrenTokens - leastImportant.replacementTokens;
+    for (let { parent } = leastImportant; parent; parent = parent.shrinkable.parent) {
+      if (parent.inReplacement) {
+        parent.shrinkable.replacementTokens -= saved;
+      } else {
+        parent.shrinkable.childrenTokens -= saved;
+      }
+    }
+    logger.debug({ tokens, shrunkTokens: tokens - saved, tokenLimit }, 'Shrunk prompt to fit the context window');
+    tokens -= saved;
+
+    forEachShrinkable(leastImportant.children, (shrinkable) => {
+      shrinkable.removed = true;
+    });
+    for (const shrinkable of shrinkablesOf(leastImportant.replacement)) {
+      const index = candidates.findIndex((candidate) => compareShrinkables(shrinkable, candidate) < 0);
+      candidates.splice(index === -1 ? candidates.length : index, 0, shrinkable);
+    }
+  }
+  return collapse(expanded);
+}
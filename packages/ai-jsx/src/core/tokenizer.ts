@@ -0,0 +1,72 @@
+/**
+ * This module provides {@link Tokenizer}s, which split text into the tokens a model sees.
+ * @packageDocumentation
+ */
+
+import { Tiktoken, TiktokenBPE } from 'js-tiktoken/lite';
+import cl100kBase from 'js-tiktoken/ranks/cl100k_base';
+import gpt2 from 'js-tiktoken/ranks/gpt2';
+import p50kBase from 'js-tiktoken/ranks/p50k_base';
+
+/**
+ * Splits text into tokens the way a model does, e.g. to count the tokens in a prompt.
+ *
+ * To find the tokenizer for a model, use {@link tokenizerForModel}.
+ */
+export interface Tokenizer {
+  /** The name of the tokenizer's encoding, e.g. `cl100k_base`. */
+  readonly name: string;
+  /** Converts text to the ids of its tokens. */
+  encode(text: string): number[];
+  /** Converts token ids back to text. */
+  decode(tokens: number[]): string;
+}
+
+/**
+ * A {@link Tokenizer} for one of OpenAI's byte pair encodings. The encoding's ranks are bundled, but they're only
+ * parsed the first time the tokenizer is used.
+ */
+class TiktokenTokenizer implements Tokenizer {
+  private tiktoken: Tiktoken | null = null;
+
+  constructor(readonly name: string, private readonly ranks: TiktokenBPE) {}
+
+  private get encoding() {
+    this.tiktoken ??= new Tiktoken(this.ranks);
+    return this.tiktoken;
+  }
+
+  encode(text: string) {
+    // Special tokens (e.g. `<|endoftext|>`) are encoded as ordinary text, as they would be in a prompt.
+    return this.encoding.encode(text, [], []);
+  }
+
+  decode(tokens: number[]) {
+    return this.encoding.decode(tokens);
+  }
+}
+
+/** The tokenizer used by GPT-2 and the original GPT-3 models (e.g. `text-curie-001`), also known as `r50k_base`. */
+export const gpt2Tokenizer: Tokenizer = new TiktokenTokenizer('gpt2', gpt2);
+
+/** The tokenizer used by `text-davinci-002`, `text-davinci-003` and the Codex models. */
+export const p50kTokenizer: Tokenizer = new TiktokenTokenizer('p50k_base', p50kBase);
+
+/** The tokenizer used by `gpt-4`, `gpt-3.5-turbo` and `text-embedding-ada-002`. */
+export const cl100kTokenizer: Tokenizer = new TiktokenTokenizer('cl100k_base', cl100kBase);
+
+/**
+ * Returns the tokenizer used by `model`.
+ *
+ * The tokenizers of other providers' models (e.g. Anthropic's and Llama2) aren't available, so their tokens are
+ * estimated with {@link gpt2Tokenizer}.
+ */
+export function tokenizerForModel(model: string): Tokenizer {
+  if (model.startsWith('gpt-4') || model.startsWith('gpt-3.5-turbo') || model === 'text-embedding-ada-002') {
+    return cl100kTokenizer;
+  }
+  if (model === 'text-davinci-002' || model === 'text-davinci-003' || model.startsWith('code-')) {
+    return p50kTokenizer;
+  }
+  return gpt2Tokenizer;
+}
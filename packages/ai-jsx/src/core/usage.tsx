@@ -0,0 +1,314 @@
+/**
+ * This module provides components for tracking the tokens used by model calls, and what they cost.
+ * @packageDocumentation
+ */
+
+import _ from 'lodash';
+import { ComponentContext, Node, RenderContext, createContext } from '../index.js';
+import { tokenizerForModel } from './tokenizer.js';
+
+/**
+ * What a model call used, as reported by the model component that made it. See {@link reportUsage}.
+ */
+export interface UsageReport {
+  /** The model provider, e.g. `openai`. */
+  provider: string;
+  /** The model, e.g. `gpt-4`. */
+  model: string;
+  /** The number of tokens in the prompt. */
+  promptTokens: number;
+  /** The number of tokens the model generated. */
+  completionTokens: number;
+  /** The images the model generated, if any. */
+  images?: { count: number; size: string };
+  /**
+   * Whether the token counts were estimated locally, rather than reported by the provider. Local counts may differ
+   * slightly from what the provider bills for, especially for models whose tokenizer isn't known.
+   */
+  estimated: boolean;
+}
+
+/** A {@link UsageReport} along with its cost, as recorded by a {@link UsageTracker}. */
+export interface UsageRecord extends UsageReport {
+  /** The cost of the call in US dollars, or `undefined` if the model has no price in the tracker's price table. */
+  costUsd: number | undefined;
+}
+
+/** The combined usage of a set of model calls. */
+export interface UsageTotals {
+  /** The number of model calls. */
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** The sum of `promptTokens` and `completionTokens`. */
+  totalTokens: number;
+  /** The number of images generated. */
+  images: number;
+  /** The combined cost of the calls in US dollars. Calls whose models have no price don't count towards it. */
+  costUsd: number;
+  /** The number of calls whose models have no price, and therefore aren't included in `costUsd`. */
+  unpricedCalls: number;
+}
+
+/**
+ * The price of a model, in US dollars.
+ */
+export interface ModelPrice {
+  /** The price of 1,000 prompt tokens. */
+  promptPer1kTokens?: number;
+  /** The price of 1,000 generated tokens. */
+  completionPer1kTokens?: number;
+  /** The price of a generated image, by image size. */
+  perImage?: Record<string, number>;
+}
+
+/**
+ * The list prices of the models AI.JSX supports, keyed by model name. Models whose names start with a key (e.g.
+ * `gpt-4-0613`) use the price of the longest such key.
+ *
+ * Llama2 models run on Replicate are billed by the second rather than by the token, so they aren't included.
+ */
+export const defaultModelPrices: Record<string, ModelPrice> = {
+  'gpt-4': { promptPer1kTokens: 0.03, completionPer1kTokens: 0.06 },
+  'gpt-4-32k': { promptPer1kTokens: 0.06, completionPer1kTokens: 0.12 },
+  'gpt-3.5-turbo': { promptPer1kTokens: 0.0015, completionPer1kTokens: 0.002 },
+  'gpt-3.5-turbo-16k': { promptPer1kTokens: 0.003, completionPer1kTokens: 0.004 },
+  'text-davinci': { promptPer1kTokens: 0.02, completionPer1kTokens: 0.02 },
+  'text-curie': { promptPer1kTokens: 0.002, completionPer1kTokens: 0.002 },
+  'text-babbage': { promptPer1kTokens: 0.0005, completionPer1kTokens: 0.0005 },
+  'text-ada': { promptPer1kTokens: 0.0004, completionPer1kTokens: 0.0004 },
+  'claude-1': { promptPer1kTokens: 0.01102, completionPer1kTokens: 0.03268 },
+  'claude-2': { promptPer1kTokens: 0.01102, completionPer1kTokens: 0.03268 },
+  'claude-instant-1': { promptPer1kTokens: 0.00163, completionPer1kTokens: 0.00551 },
+  'dall-e': { perImage: { '256x256': 0.016, '512x512': 0.018, '1024x1024': 0.02 } },
+};
+
+/**
+ * Finds the price of `model` in `prices`: either the price keyed by its name or, failing that, the price of the
+ * longest key that its name starts with.
+ */
+function priceOf(model: string, prices: Record<string, ModelPrice>): ModelPrice | undefined {
+  if (model in prices) {
+    return prices[model];
+  }
+  const prefix = Object.keys(prices)
+    .filter((key) => model.startsWith(key))
+    .reduce((longest, key) => (key.length > longest.length ? key : longest), '');
+  return prefix ? prices[prefix] : undefined;
+}
+
+/**
+ * Calculates the cost of a model call in US dollars, or `undefined` if the model (or the size of the images it
+ * generated) has no price.
+ */
+export function costOf(report: UsageReport, prices: Record<string, ModelPrice> = defaultModelPrices) {
+  const price = priceOf(report.model, prices);
+  if (!price) {
+    return undefined;
+  }
+
+  let cost =
+    (report.promptTokens / 1000) * (price.promptPer1kTokens ?? 0) +
+    (report.completionTokens / 1000) * (price.completionPer1kTokens ?? 0);
+  if (report.images) {
+    const imagePrice = price.perImage?.[report.images.size];
+    if (imagePrice === undefined) {
+      return undefined;
+    }
+    cost += report.images.count * imagePrice;
+  }
+  return cost;
+}
+
+function sumUsage(records: UsageRecord[]): UsageTotals {
+  const totals: UsageTotals = {
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    images: 0,
+    costUsd: 0,
+    unpricedCalls: 0,
+  };
+  for (const record of records) {
+    totals.calls++;
+    totals.promptTokens += record.promptTokens;
+    totals.completionTokens += record.completionTokens;
+    totals.totalTokens += record.promptTokens + record.completionTokens;
+    totals.images += record.images?.count ?? 0;
+    if (record.costUsd === undefined) {
+      totals.unpricedCalls++;
+    } else {
+      totals.costUsd += record.costUsd;
+    }
+  }
+  return totals;
+}
+
+/**
+ * Records the model calls made within the {@link TrackUsage} elements it's passed to.
+ *
+ * @example
+ * ```tsx
+ *  const tracker = new UsageTracker();
+ *  await AI.createRenderContext().render(
+ *    <TrackUsage tracker={tracker}>
+ *      <App />
+ *    </TrackUsage>
+ *  );
+ *  console.log(tracker.totals.totalTokens, tracker.totals.costUsd);
+ * ```
+ */
+export class UsageTracker {
+  /** Every model call recorded so far, in the order the calls finished. */
+  readonly records: UsageRecord[] = [];
+
+  /**
+   * @param prices The price table used to calculate costs. See {@link defaultModelPrices}.
+   */
+  constructor(readonly prices: Record<string, ModelPrice> = defaultModelPrices) {}
+
+  record(report: UsageReport) {
+    this.records.push({ ...report, costUsd: costOf(report, this.prices) });
+  }
+
+  /**
+   * Called before a model call is made. `call` estimates its prompt tokens, and its `completionTokens` are updated as
+   * it streams. Subclasses can throw to refuse the call.
+   */
+  startCall(_call: UsageReport) {}
+
+  /** Called as a started call streams, after its `completionTokens` are updated. Subclasses can throw to stop it. */
+  updateCall(_call: UsageReport) {}
+
+  /**
+   * Called once a started call has finished, with its final usage, or `undefined` if the call failed before the model
+   * responded.
+   */
+  endCall(_call: UsageReport, report: UsageReport | undefined) {
+    if (report) {
+      this.record(report);
+    }
+  }
+
+  /** The combined usage of all the recorded calls. */
+  get totals(): UsageTotals {
+    return sumUsage(this.records);
+  }
+
+  /** The combined usage of the recorded calls, by model. */
+  totalsByModel(): Record<string, UsageTotals> {
+    return _.mapValues(
+      _.groupBy(this.records, (record) => record.model),
+      sumUsage
+    );
+  }
+}
+
+/** @hidden */
+export const UsageTrackerContext = createContext<UsageTracker[]>([], 'UsageTracker');
+
+/**
+ * Records the usage of every model call made by its children to `tracker`.
+ *
+ * To track the usage of an entire render, wrap the root element. `TrackUsage` elements can be nested to also
+ * track the usage of individual parts of the tree: each call is recorded by the trackers of every enclosing
+ * `TrackUsage`.
+ *
+ * @example
+ * ```tsx
+ *  const total = new UsageTracker();
+ *  const summaries = new UsageTracker();
+ *
+ *  <TrackUsage tracker={total}>
+ *    <TrackUsage tracker={summaries}>
+ *      <Summaries />
+ *    </TrackUsage>
+ *    <Answer />
+ *  </TrackUsage>
+ * ```
+ */
+export function TrackUsage(
+  { tracker, children }: { tracker: UsageTracker; children: Node },
+  { getContext }: ComponentContext
+) {
+  return (
+    <UsageTrackerContext.Provider value={[...getContext(UsageTrackerContext), tracker]}>
+      {children}
+    </UsageTrackerContext.Provider>
+  );
+}
+
+/**
+ * Reports what a model call used to the enclosing {@link TrackUsage}s' trackers, if there are any. Custom model
+ * components can call this once each call has finished to be tracked too. (To let trackers refuse or stop calls, use
+ * {@link startModelCall} instead.)
+ */
+export function reportUsage(report: UsageReport, { getContext }: Pick<RenderContext, 'getContext'>) {
+  for (const tracker of getContext(UsageTrackerContext)) {
+    tracker.record(report);
+  }
+}
+
+/**
+ * A model call that's been reported to the enclosing trackers by {@link startModelCall}.
+ */
+export interface TrackedModelCall {
+  /** Reports text the model has generated. Its tokens are counted locally, with the model's tokenizer. */
+  addCompletion(text: string): void;
+  /**
+   * Reports that the call has finished. If the provider reported the call's usage, pass it; otherwise, the local
+   * estimates are used.
+   */
+  end(reportedUsage?: Pick<UsageReport, 'promptTokens' | 'completionTokens'>): void;
+  /** Reports that the call failed before the model responded. */
+  cancel(): void;
+}
+
+/**
+ * Reports a model call that's about to be made to the enclosing {@link TrackUsage}s' trackers, if there are any.
+ * A tracker may refuse the call by throwing, as a `Budget` does when the call would exceed it.
+ *
+ * The built-in model components call this before making requests, report text as it streams, and end the call once
+ * it's finished. Custom model components can do the same, or call {@link reportUsage} once they're finished.
+ *
+ * @param call The model being called, along with any images it will generate.
+ * @param countPromptTokens Estimates the number of tokens in the prompt. It's only called if there are trackers.
+ */
+export function startModelCall(
+  call: Pick<UsageReport, 'provider' | 'model' | 'images'>,
+  countPromptTokens: () => number,
+  { getContext }: Pick<RenderContext, 'getContext'>
+): TrackedModelCall {
+  const trackers = getContext(UsageTrackerContext);
+  if (!trackers.length) {
+    return { addCompletion() {}, end() {}, cancel() {} };
+  }
+
+  const tokenizer = tokenizerForModel(call.model);
+  const progress: UsageReport = { ...call, promptTokens: countPromptTokens(), completionTokens: 0, estimated: true };
+  const started = [] as UsageTracker[];
+  const end = (report: UsageReport | undefined) => started.forEach((tracker) => tracker.endCall(progress, report));
+  try {
+    for (const tracker of trackers) {
+      started.push(tracker);
+      tracker.startCall(progress);
+    }
+  } catch (ex) {
+    end(undefined);
+    throw ex;
+  }
+
+  return {
+    addCompletion(text) {
+      progress.completionTokens += tokenizer.encode(text).length;
+      trackers.forEach((tracker) => tracker.updateCall(progress));
+    },
+    end(reportedUsage) {
+      end(reportedUsage ? { ...progress, ...reportedUsage, estimated: false } : { ...progress });
+    },
+    cancel() {
+      end(undefined);
+    },
+  };
+}
@@ -95,11 +95,14 @@ function Chunk({ stream, children }: { stream?: StreamType; children: ReactNode
 export const jsx = asJsxBoundary(function jsx(
   {
     logger,
+    signal,
     stream,
     children,
     onComplete,
   }: {
     logger?: LogImplementation;
+    /** Aborts rendering, e.g. when the request that triggered it is aborted. */
+    signal?: AbortSignal;
     stream?: StreamType;
     children: AI.Node;
     onComplete?: (finalText: string, finalUI: ReactNode) => void;
@@ -111,7 +114,7 @@ export const jsx = asJsxBoundary(function jsx(
     return children as any;
   }
 
-  const renderResult = AI.createRenderContext({ logger }).render(children, {
+  const renderResult = AI.createRenderContext({ logger, signal }).render(children, {
     stop: (e) => boundaryElements.some((special) => special.tag === e.tag),
     map: (frame) => frame.map(unwrapReact),
   });
@@ -4,7 +4,7 @@ import { Node } from '../index.js';
 import { useState, useEffect } from 'react';
 import SyntaxHighlight from './syntax-highlight.js';
 import Spinner from './spinner.js';
-import { DebugTree } from '../core/debug.js';
+import { DebugTree, debugProvenance } from '../core/debug.js';
 
 import { Box, render, Spacer, Text, useInput, useStdout } from 'ink';
 
@@ -68,7 +68,7 @@ function DebugTreeStream({ content, width, height }: { content: string; width: s
 function StatusBar() {
   return (
     <Box width="100%" height={1}>
-      <Text>Left/right arrow keys to browse history, 1=first, 9=last, q to quit.</Text>
+      <Text>Left/right arrow keys to browse history, 1=first, 9=last, p to toggle provenance, q to quit.</Text>
     </Box>
   );
 }
@@ -81,6 +81,8 @@ function Inspector({ componentToInspect, showDebugTree }: { componentToInspect:
   const [columns, rows] = useStdoutDimensions();
 
   const [renderedContent, setRenderedContent] = useState('');
+  const [provenance, setProvenance] = useState<string | null>(null);
+  const [showProvenance, setShowProvenance] = useState(false);
 
   const pushDebugTreeStep = (step: string) => setDebugTreeSteps((previous) => previous.concat([step]));
 
@@ -97,8 +99,12 @@ function Inspector({ componentToInspect, showDebugTree }: { componentToInspect:
       setDebugTreeStreamIsDone(true);
     }
     async function getRenderedContent() {
-      const finalResult = await renderContext.render(memoized, { map: setRenderedContent });
-      setRenderedContent(finalResult);
+      const finalResult = await renderContext.render(memoized, {
+        map: (frame) => setRenderedContent(frame.text),
+        provenance: true,
+      });
+      setRenderedContent(finalResult.text);
+      setProvenance(debugProvenance(finalResult));
     }
     getAllFrames();
     getRenderedContent();
@@ -121,6 +127,9 @@ function Inspector({ componentToInspect, showDebugTree }: { componentToInspect:
     if (input === '9') {
       setDebugTreeFrameIndex(debugTreeSteps.length - 1);
     }
+    if (input === 'p') {
+      setShowProvenance((previous) => !previous);
+    }
     if (input === 'q') {
       process.exit();
     }
@@ -140,7 +149,11 @@ function Inspector({ componentToInspect, showDebugTree }: { componentToInspect:
           <LiveStream content={renderedContent} width={showDebugTree ? '50%' : '100%'} height={rows - 6} />
 
           {showDebugTree && (
-            <DebugTreeStream content={debugTreeSteps[debugFrameIndexToUse] ?? ''} width="50%" height={rows - 6} />
+            <DebugTreeStream
+              content={showProvenance && provenance !== null ? provenance : debugTreeSteps[debugFrameIndexToUse] ?? ''}
+              width="50%"
+              height={rows - 6}
+            />
           )}
         </Box>
         <StatusBar />
@@ -154,7 +167,8 @@ function Inspector({ componentToInspect, showDebugTree }: { componentToInspect:
  *
  * The left side shows the streamed final output, and the right side shows the debug tree.
  * You can use the left and right arrow keys to step through the debug tree, to see
- * how your program was evaluated step by step.
+ * how your program was evaluated step by step. Once rendering completes, press `p` to see
+ * which component produced each part of the output (see {@link debugProvenance}).
  *
  * Note that if you call `showInspector` and also write to stdout or stderr (for instance, with `console.log`), the output may be messed up.
  *
@@ -22,5 +22,7 @@ export const jsxDEV = jsx;
 /** @hidden */
 export const jsxs = jsx;
 
+// Re-exported (rather than assigned to a constant) so that it's bound lazily: modules that use JSX are loaded while
+// `index.js` is, before `Fragment` has been defined.
 /** @hidden */
-export const Fragment = AI.Fragment;
+export { Fragment } from './core/node.js';
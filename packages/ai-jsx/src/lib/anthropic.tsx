@@ -1,7 +1,7 @@
 import AnthropicSDK from '@anthropic-ai/sdk';
 import { getEnvVar } from './util.js';
 import * as AI from '../index.js';
-import { Node } from '../index.js';
+import { Node, onAbort } from '../index.js';
 import { ChatOrCompletionModelOrBoth } from './model.js';
 import {
   AssistantMessage,
@@ -14,11 +14,17 @@ import {
   ModelPropsWithChildren,
 } from '../core/completion.js';
 import { AIJSXError, ErrorCode } from '../core/errors.js';
+import { getRemainingTime } from '../core/deadline.js';
+import { acquireConcurrencySlot } from '../core/concurrency.js';
+import { interceptModelCall } from '../core/intercept.js';
+import { tokenizerForModel } from '../core/tokenizer.js';
+import { startModelCall } from '../core/usage.js';
 
 export const anthropicClientContext = AI.createContext<AnthropicSDK>(
   new AnthropicSDK({
     apiKey: getEnvVar('ANTHROPIC_API_KEY', false),
-  })
+  }),
+  'AnthropicClient'
 );
 
 type ValidCompletionModel = never;
@@ -88,22 +94,11 @@ export function Anthropic({
   return result;
 }
 
-interface AnthropicChatModelProps extends ModelPropsWithChildren {
-  model: ValidChatModel;
-}
-export async function* AnthropicChatModel(
-  props: AnthropicChatModelProps,
-  { render, getContext, logger, memo }: AI.ComponentContext
-): AI.RenderableStream {
-  if ('functionDefinitions' in props) {
-    throw new AIJSXError(
-      'Anthropic does not support function calling, but function definitions were provided.',
-      ErrorCode.ChatModelDoesNotSupportFunctions,
-      'user'
-    );
-  }
-  yield AI.AppendOnlyStream;
-  const messageElements = await render(props.children, {
+/**
+ * Renders the children of a chat model to the turns of an Anthropic prompt.
+ */
+async function renderAnthropicMessages(children: Node, render: AI.ComponentContext['render']) {
+  const messageElements = await render(children, {
     stop: (e) =>
       e.tag == SystemMessage ||
       e.tag == UserMessage ||
@@ -111,7 +106,7 @@ export async function* AnthropicChatModel(
       e.tag == FunctionCall ||
       e.tag == FunctionResponse,
   });
-  const messages = await Promise.all(
+  return Promise.all(
     messageElements
       .filter(AI.isElement)
       .flatMap((message) => {
@@ -148,6 +143,26 @@ export async function* AnthropicChatModel(
         }
       })
   );
+}
+
+interface AnthropicChatModelProps extends ModelPropsWithChildren {
+  model: ValidChatModel;
+}
+export async function* AnthropicChatModel(
+  props: AnthropicChatModelProps,
+  { render, getContext, logger, memo, signal }: AI.ComponentContext
+): AI.RenderableStream {
+  if ('functionDefinitions' in props) {
+    throw new AIJSXError(
+      'Anthropic does not support function calling, but function definitions were provided.',
+      ErrorCode.ChatModelDoesNotSupportFunctions,
+      'user'
+    );
+  }
+  yield AI.AppendOnlyStream;
+  // Anthropic's tokenizer isn't available, so prompts' tokens are estimated.
+  const tokenizer = tokenizerForModel(props.model);
+  const messages = await renderAnthropicMessages(props.children, render);
 
   if (!messages.length) {
     throw new AIJSXError(
@@ -170,50 +185,94 @@ export async function* AnthropicChatModel(
     top_p: props.topP,
   };
 
-  logger.debug({ anthropicCompletionRequest }, 'Calling createCompletion');
+  // If there's a deadline, don't let the request outlive it.
+  const remainingTime = getRemainingTime({ getContext });
+  const requestOptions = Number.isFinite(remainingTime) ? { timeout: Math.max(1, Math.ceil(remainingTime)) } : {};
 
-  let response: Awaited<ReturnType<typeof anthropic.completions.create>>;
+  // The Anthropic API doesn't report usage, so usage is estimated too.
+  const modelCall = startModelCall(
+    { provider: 'anthropic', model: props.model },
+    () => tokenizer.encode(anthropicCompletionRequest.prompt).length,
+    { getContext }
+  );
+  let responded = false;
+  let releaseSlot = () => {};
   try {
-    response = await anthropic.completions.create(anthropicCompletionRequest);
-  } catch (err) {
-    if (err instanceof AnthropicSDK.APIError) {
-      throw new AIJSXError(
-        err.message,
-        ErrorCode.AnthropicAPIError,
-        'runtime',
-        Object.fromEntries(Object.entries(err))
-      );
-    }
-    throw err;
-  }
+    releaseSlot = await acquireConcurrencySlot('anthropic', { getContext });
+    logger.debug({ anthropicCompletionRequest, requestOptions }, 'Calling createCompletion');
 
-  // Embed the stream "within" an <AssistantMessage>, memoizing it to ensure it's only consumed once.
-  yield (
-    <AssistantMessage>
-      {memo(
-        (async function* (): AI.RenderableStream {
-          yield AI.AppendOnlyStream;
-          let resultSoFar = '';
-          let isFirstResponse = true;
-          for await (const completion of response) {
-            let text = completion.completion;
-            if (isFirstResponse && text.length > 0) {
-              isFirstResponse = false;
-              if (text.startsWith(' ')) {
-                text = text.slice(1);
-              }
+    const response = interceptModelCall(
+      { getContext },
+      'anthropic.completions.create',
+      anthropicCompletionRequest,
+      async function* () {
+        let stream: Awaited<ReturnType<typeof anthropic.completions.create>>;
+        try {
+          stream = await anthropic.completions.create(anthropicCompletionRequest, requestOptions);
+        } catch (err) {
+          if (err instanceof AnthropicSDK.APIError) {
+            throw new AIJSXError(
+              err.message,
+              ErrorCode.AnthropicAPIError,
+              'runtime',
+              Object.fromEntries(Object.entries(err))
+            );
+          }
+          throw err;
+        }
+
+        // The Anthropic SDK doesn't accept an AbortSignal, so we abort the underlying stream ourselves.
+        if (signal.aborted) {
+          stream.controller.abort();
+        }
+        const unregister = onAbort(signal, () => stream.controller.abort());
+        try {
+          yield* stream;
+        } finally {
+          unregister();
+        }
+      }
+    );
+
+    // Embed the stream "within" an <AssistantMessage>, memoizing it to ensure it's only consumed once.
+    const assistantStream = memo(
+      (async function* (): AI.RenderableStream {
+        yield AI.AppendOnlyStream;
+        let resultSoFar = '';
+        let isFirstResponse = true;
+        for await (const completion of response) {
+          responded = true;
+          let text = completion.completion;
+          if (isFirstResponse && text.length > 0) {
+            isFirstResponse = false;
+            if (text.startsWith(' ')) {
+              text = text.slice(1);
             }
-            resultSoFar += text;
-            logger.trace({ completion }, 'Got Anthropic stream event');
-            yield text;
           }
+          resultSoFar += text;
+          modelCall.addCompletion(text);
+          logger.trace({ completion }, 'Got Anthropic stream event');
+          yield text;
+        }
 
-          logger.debug({ completion: resultSoFar }, 'Anthropic completion finished');
-          return AI.AppendOnlyStream;
-        })()
-      )}
-    </AssistantMessage>
-  );
+        logger.debug({ completion: resultSoFar }, 'Anthropic completion finished');
+        return AI.AppendOnlyStream;
+      })()
+    );
+    yield <AssistantMessage>{assistantStream}</AssistantMessage>;
+
+    // Ensure the stream is flushed by rendering it, so that the concurrency slot is held until it's finished.
+    await render(assistantStream);
+  } finally {
+    releaseSlot();
+    // TS doesn't realize that the assistantStream closure can set `responded`.
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+    if (responded) {
+      modelCall.end();
+    } else {
+      modelCall.cancel();
+    }
+  }
 
   return AI.AppendOnlyStream;
 }
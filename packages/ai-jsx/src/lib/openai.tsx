@@ -3,7 +3,6 @@
  * @packageDocumentation
  */
 
-import GPT3Tokenizer from 'gpt3-tokenizer';
 import {
   ChatCompletionFunctions,
   ChatCompletionRequestMessage,
@@ -12,6 +11,7 @@ import {
   CreateChatCompletionRequestFunctionCall,
   CreateChatCompletionResponse,
   CreateCompletionResponse,
+  CreateCompletionResponseUsage,
   CreateImageRequestResponseFormatEnum,
   CreateImageRequestSizeEnum,
   OpenAIApi,
@@ -32,6 +32,12 @@ import {
   getParametersSchema,
 } from '../core/completion.js';
 import { AIJSXError, ErrorCode, HttpError } from '../core/errors.js';
+import { acquireConcurrencySlot } from '../core/concurrency.js';
+import { requestTimeout } from '../core/deadline.js';
+import { interceptModelCall, interceptModelCallResult } from '../core/intercept.js';
+import { shareChoices } from '../core/samples.js';
+import { Tokenizer, tokenizerForModel } from '../core/tokenizer.js';
+import { TrackedModelCall, startModelCall } from '../core/usage.js';
 import { Image, ImageGenPropsWithChildren } from '../core/image-gen.js';
 import { Logger } from '../core/log.js';
 import * as AI from '../index.js';
@@ -76,7 +82,8 @@ export const openAiClientContext = AI.createContext<OpenAIApi>(
     getEnvVar('OPENAI_API_BASE', false) || undefined,
     // TODO: Figure out a better way to work around NextJS fetch blocking streaming
     (globalThis as any)._nextOriginalFetch ?? globalThis.fetch
-  )
+  ),
+  'OpenAIClient'
 );
 
 /**
@@ -154,22 +161,69 @@ async function* openAiEventsToJson<T>(iterable: AsyncIterable<String>): AsyncGen
   }
 }
 
-function logitBiasOfTokens(tokens: Record<string, number>) {
-  // N.B. We're using GPT3Tokenizer which per https://platform.openai.com/tokenizer "works for most GPT-3 models".
-  const tokenizer = new GPT3Tokenizer.default({ type: 'gpt3' });
-  return Object.fromEntries(
-    Object.entries(tokens).map(([token, bias]) => {
-      const encoded = tokenizer.encode(token) as { bpe: number[]; text: string[] };
-      if (encoded.bpe.length > 1) {
-        throw new AIJSXError(
-          `You can only set logit_bias for a single token, but "${bias}" is ${encoded.bpe.length} tokens.`,
-          ErrorCode.LogitBiasBadInput,
-          'user'
-        );
+/**
+ * How a string in `logitBias` that's more than one token is biased:
+ *
+ *  * `firstToken`: only its first token is biased, e.g. to make the model more (or less) likely to start its reply
+ *    with it.
+ *  * `allTokens`: each of its tokens is biased. With a bias of 100, this constrains the model to reply with tokens
+ *    from the given strings (though not necessarily in the same order), e.g. to pick one of several choices.
+ */
+export type MultiTokenLogitBias = 'firstToken' | 'allTokens';
+
+/**
+ * Properties that bias the tokens an OpenAI model generates.
+ *
+ * @see https://platform.openai.com/docs/api-reference/chat/create#chat/create-logit_bias
+ */
+export interface LogitBiasProps {
+  /**
+   * Biases how likely the given strings are to appear in the reply, from -100 (never) to 100 (exclusively).
+   * The strings are converted to tokens with the model's tokenizer.
+   */
+  logitBias?: Record<string, number>;
+  /**
+   * How strings in `logitBias` that are more than one token are biased. If unspecified, they're an error.
+   */
+  logitBiasMultiToken?: MultiTokenLogitBias;
+  /**
+   * Biases how likely the tokens with the given ids are to appear in the reply, like `logitBias`. These take
+   * precedence over biases from `logitBias`.
+   */
+  logitBiasTokenIds?: Record<number, number>;
+}
+
+/**
+ * Converts {@link LogitBiasProps} to the `logit_bias` of an OpenAI request. Where strings share a token, it gets the
+ * bias furthest from zero.
+ */
+function logitBiasOfTokens(
+  { logitBias, logitBiasMultiToken, logitBiasTokenIds }: LogitBiasProps,
+  tokenizer: Tokenizer
+): Record<number, number> | undefined {
+  if (!logitBias && !logitBiasTokenIds) {
+    return undefined;
+  }
+
+  const result: Record<number, number> = {};
+  for (const [text, bias] of Object.entries(logitBias ?? {})) {
+    const encoded = tokenizer.encode(text);
+    if (encoded.length > 1 && !logitBiasMultiToken) {
+      throw new AIJSXError(
+        `"${text}" is ${encoded.length} tokens, so it can only be given a logit bias if logitBiasMultiToken is set.`,
+        ErrorCode.LogitBiasBadInput,
+        'user'
+      );
+    }
+
+    const tokens = logitBiasMultiToken === 'firstToken' ? encoded.slice(0, 1) : encoded;
+    for (const token of tokens) {
+      if (!(token in result) || Math.abs(bias) > Math.abs(result[token])) {
+        result[token] = bias;
       }
-      return [encoded.bpe[0], bias];
-    })
-  );
+    }
+  }
+  return { ...result, ...logitBiasTokenIds };
 }
 
 /**
@@ -243,12 +297,55 @@ async function checkOpenAIResponse<M extends OpenAIMethod>(response: Response, l
   }
 }
 
+/**
+ * Estimates the number of prompt tokens used by a chat completion request.
+ * @see https://github.com/openai/openai-cookbook/blob/main/examples/How_to_count_tokens_with_tiktoken.ipynb
+ */
+function countChatPromptTokens(
+  messages: ChatCompletionRequestMessage[],
+  functions: ChatCompletionFunctions[] | undefined,
+  tokenizer: Tokenizer
+) {
+  const countTokens = (text: string) => tokenizer.encode(text).length;
+
+  // Each message is wrapped in a few tokens of formatting, as is the reply.
+  let tokens = 3;
+  for (const message of messages) {
+    tokens += 3 + countTokens(message.role) + countTokens(message.content ?? '');
+    if (message.name) {
+      tokens += 1 + countTokens(message.name);
+    }
+    if (message.function_call) {
+      tokens += countTokens(message.function_call.name ?? '') + countTokens(message.function_call.arguments ?? '');
+    }
+  }
+  if (functions) {
+    tokens += countTokens(JSON.stringify(functions));
+  }
+  return tokens;
+}
+
+/**
+ * Ends a tracked OpenAI model call, preferring the usage reported by the API (if any) to local estimates.
+ */
+function endOpenAIModelCall(
+  modelCall: TrackedModelCall,
+  responded: boolean,
+  usage: CreateCompletionResponseUsage | undefined
+) {
+  if (responded) {
+    modelCall.end(usage && { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens });
+  } else {
+    modelCall.cancel();
+  }
+}
+
 /**
  * Represents an OpenAI text completion model (e.g., `text-davinci-003`).
  */
 export async function* OpenAICompletionModel(
-  props: ModelPropsWithChildren & { model: ValidCompletionModel; logitBias?: Record<string, number> },
-  { render, getContext, logger }: AI.ComponentContext
+  props: ModelPropsWithChildren & LogitBiasProps & { model: ValidCompletionModel },
+  { render, getContext, logger, signal }: AI.ComponentContext
 ): AI.RenderableStream {
   yield AI.AppendOnlyStream;
 
@@ -261,70 +358,60 @@ export async function* OpenAICompletionModel(
     prompt: await render(props.children),
     stop: props.stop,
     stream: true,
-    logit_bias: props.logitBias ? logitBiasOfTokens(props.logitBias) : undefined,
+    logit_bias: logitBiasOfTokens(props, tokenizerForModel(props.model)),
   };
-  logger.debug({ completionRequest }, 'Calling createCompletion');
-
-  const completionResponse = await openai.createCompletion(completionRequest);
-
-  await checkOpenAIResponse(completionResponse, logger, 'createCompletion');
-
-  let resultSoFar = '';
-
-  // checkOpenAIResponse will throw if completionResponse.body is null, so we know it's not null here.
-  const responseIterator = asyncIteratorOfFetchStream(completionResponse.body!.getReader());
+  const modelCall = startModelCall(
+    { provider: 'openai', model: props.model },
+    () => tokenizerForModel(props.model).encode(completionRequest.prompt).length,
+    {
+      getContext,
+    }
+  );
+  let responded = false;
+  let usage = undefined as CreateCompletionResponseUsage | undefined;
+  let releaseSlot = () => {};
+  // If there's a deadline, don't let the request outlive it.
+  const timeout = requestTimeout(signal, { getContext });
+  try {
+    releaseSlot = await acquireConcurrencySlot('openai', { getContext });
+    logger.debug({ completionRequest }, 'Calling createCompletion');
+
+    const events = interceptModelCall({ getContext }, 'openai.createCompletion', completionRequest, async function* () {
+      const completionResponse = await openai.createCompletion(completionRequest, { signal: timeout.signal });
+
+      await checkOpenAIResponse(completionResponse, logger, 'createCompletion');
+
+      // checkOpenAIResponse will throw if completionResponse.body is null, so we know it's not null here.
+      const responseIterator = asyncIteratorOfFetchStream(completionResponse.body!.getReader());
+      yield* openAiEventsToJson<CreateCompletionResponse>(responseIterator);
+    });
+
+    let resultSoFar = '';
+
+    for await (const event of events) {
+      logger.trace({ event }, 'Got createCompletion event');
+      responded = true;
+      usage = event.usage ?? usage;
+      modelCall.addCompletion(event.choices[0].text ?? '');
+      yield event.choices[0].text;
+      resultSoFar += event.choices[0].text;
+    }
 
-  for await (const event of openAiEventsToJson<CreateCompletionResponse>(responseIterator)) {
-    logger.trace({ event }, 'Got createCompletion event');
-    yield event.choices[0].text;
-    resultSoFar += event.choices[0].text;
+    logger.debug({ completion: resultSoFar }, 'Finished createCompletion');
+  } finally {
+    timeout.clear();
+    releaseSlot();
+    endOpenAIModelCall(modelCall, responded, usage);
   }
 
-  logger.debug({ completion: resultSoFar }, 'Finished createCompletion');
-
   return AI.AppendOnlyStream;
 }
 
 /**
- * Represents an OpenAI text chat model (e.g., `gpt-4`).
+ * Renders the children of a chat model to the messages of a chat completion request.
  */
-export async function* OpenAIChatModel(
-  props: ModelPropsWithChildren & {
-    model: ValidChatModel;
-    logitBias?: Record<string, number>;
-  } & MergeExclusive<
-      {
-        functionDefinitions: Record<string, FunctionDefinition>;
-        forcedFunction: string;
-      },
-      {
-        functionDefinitions?: never;
-        forcedFunction?: never;
-      }
-    >,
-  { render, getContext, logger, memo }: AI.ComponentContext
-): AI.RenderableStream {
-  if (props.functionDefinitions) {
-    if (!chatModelSupportsFunctions(props.model)) {
-      throw new AIJSXError(
-        `The ${props.model} model does not support function calling, but function definitions were provided.`,
-        ErrorCode.ChatModelDoesNotSupportFunctions,
-        'user'
-      );
-    }
-  }
-
-  if (props.forcedFunction && !Object.keys(props.functionDefinitions).includes(props.forcedFunction)) {
-    throw new AIJSXError(
-      `The function ${props.forcedFunction} was forced, but no function with that name was defined.`,
-      ErrorCode.ChatCompletionBadInput,
-      'user'
-    );
-  }
-
-  yield AI.AppendOnlyStream;
-
-  const messageElements = await render(props.children, {
+async function renderOpenAIChatMessages(children: Node, render: AI.ComponentContext['render']) {
+  const messageElements = await render(children, {
     stop: (e) =>
       e.tag == SystemMessage ||
       e.tag == UserMessage ||
@@ -333,8 +420,8 @@ export async function* OpenAIChatModel(
       e.tag == FunctionResponse,
   });
 
-  const messages: ChatCompletionRequestMessage[] = await Promise.all(
-    messageElements.filter(AI.isElement).map(async (message) => {
+  return Promise.all(
+    messageElements.filter(AI.isElement).map(async (message): Promise<ChatCompletionRequestMessage> => {
       switch (message.tag) {
         case SystemMessage:
           return {
@@ -376,15 +463,145 @@ export async function* OpenAIChatModel(
       }
     })
   );
+}
 
-  if (!messages.length) {
+type ChatCompletionDelta = Merge<
+  CreateChatCompletionResponse,
+  {
+    choices: { index?: number; delta: Partial<ChatCompletionResponseMessage>; finish_reason: string | undefined }[];
+  }
+>;
+
+/**
+ * Makes a streaming chat completion request, and splits the response into the deltas of each of its choices.
+ *
+ * The request is made when the first delta is asked for, and the model call is tracked until the response has been
+ * read or the choices are closed.
+ */
+function streamChatCompletionChoices(
+  request: CreateChatCompletionRequest,
+  countPromptTokens: () => number,
+  { getContext, logger, signal }: Pick<AI.ComponentContext, 'getContext' | 'logger' | 'signal'>
+) {
+  const openai = getContext(openAiClientContext);
+  const modelCall = startModelCall({ provider: 'openai', model: request.model }, countPromptTokens, { getContext });
+  const deltas = Array.from({ length: request.n ?? 1 }, () => [] as Partial<ChatCompletionResponseMessage>[]);
+  let responded = false;
+  let usage = undefined as CreateCompletionResponseUsage | undefined;
+  let releaseSlot = () => {};
+  let finished = false;
+  let failure: { error: unknown } | undefined;
+  let iterator: AsyncIterator<ChatCompletionDelta> | undefined;
+  let reading: Promise<void> | undefined;
+  // If there's a deadline, don't let the request outlive it.
+  const timeout = requestTimeout(signal, { getContext });
+
+  const finish = () => {
+    if (!finished) {
+      finished = true;
+      timeout.clear();
+      releaseSlot();
+      endOpenAIModelCall(modelCall, responded, usage);
+    }
+  };
+
+  const read = async () => {
+    try {
+      if (!iterator) {
+        releaseSlot = await acquireConcurrencySlot('openai', { getContext });
+        logger.debug({ chatCompletionRequest: request }, 'Calling createChatCompletion');
+        iterator = interceptModelCall({ getContext }, 'openai.createChatCompletion', request, async function* () {
+          const chatResponse = await openai.createChatCompletion(request, { signal: timeout.signal });
+
+          await checkOpenAIResponse(chatResponse, logger, 'createChatCompletion');
+
+          yield* openAiEventsToJson<ChatCompletionDelta>(asyncIteratorOfFetchStream(chatResponse.body!.getReader()));
+        })[Symbol.asyncIterator]();
+      }
+
+      const next = await iterator.next();
+      if (next.done) {
+        logger.debug('Finished createChatCompletion');
+        finish();
+        return;
+      }
+
+      logger.trace({ deltaMessage: next.value }, 'Got delta message');
+      responded = true;
+      usage = next.value.usage ?? usage;
+      for (const { index, delta } of next.value.choices) {
+        modelCall.addCompletion(
+          (delta.content ?? '') + (delta.function_call?.name ?? '') + (delta.function_call?.arguments ?? '')
+        );
+        deltas[index ?? 0].push(delta);
+      }
+    } catch (error) {
+      failure = { error };
+      finish();
+    }
+  };
+
+  return {
+    /** Returns the next delta of the given choice, or `null` once the choice is finished. */
+    async next(choice: number): Promise<Partial<ChatCompletionResponseMessage> | null> {
+      while (!deltas[choice].length) {
+        if (finished) {
+          if (failure) {
+            throw failure.error;
+          }
+          return null;
+        }
+        reading ??= read().finally(() => {
+          reading = undefined;
+        });
+        await reading;
+      }
+      return deltas[choice].shift()!;
+    },
+
+    close: finish,
+  };
+}
+
+/**
+ * Represents an OpenAI text chat model (e.g., `gpt-4`).
+ */
+export async function* OpenAIChatModel(
+  props: ModelPropsWithChildren &
+    LogitBiasProps & {
+      model: ValidChatModel;
+    } & MergeExclusive<
+      {
+        functionDefinitions: Record<string, FunctionDefinition>;
+        forcedFunction: string;
+      },
+      {
+        functionDefinitions?: never;
+        forcedFunction?: never;
+      }
+    >,
+  { render, getContext, logger, memo, signal }: AI.ComponentContext
+): AI.RenderableStream {
+  if (props.functionDefinitions) {
+    if (!chatModelSupportsFunctions(props.model)) {
+      throw new AIJSXError(
+        `The ${props.model} model does not support function calling, but function definitions were provided.`,
+        ErrorCode.ChatModelDoesNotSupportFunctions,
+        'user'
+      );
+    }
+  }
+
+  if (props.forcedFunction && !Object.keys(props.functionDefinitions).includes(props.forcedFunction)) {
     throw new AIJSXError(
-      "ChatCompletion must have at least child that's a SystemMessage, UserMessage, AssistantMessage, FunctionCall, or FunctionResponse, but no such children were found.",
-      ErrorCode.ChatCompletionMissingChildren,
+      `The function ${props.forcedFunction} was forced, but no function with that name was defined.`,
+      ErrorCode.ChatCompletionBadInput,
       'user'
     );
   }
 
+  yield AI.AppendOnlyStream;
+
   const openaiFunctions: ChatCompletionFunctions[] | undefined = !props.functionDefinitions
     ? undefined
     : Object.entries(props.functionDefinitions).map(([functionName, functionDefinition]) => ({
@@ -392,11 +609,21 @@ export async function* OpenAIChatModel(
         description: functionDefinition.description,
         parameters: getParametersSchema(functionDefinition.parameters),
       }));
+  const tokenizer = tokenizerForModel(props.model);
+  const messages = await renderOpenAIChatMessages(props.children, render);
+
+  if (!messages.length) {
+    throw new AIJSXError(
+      "ChatCompletion must have at least child that's a SystemMessage, UserMessage, AssistantMessage, FunctionCall, or FunctionResponse, but no such children were found.",
+      ErrorCode.ChatCompletionMissingChildren,
+      'user'
+    );
+  }
+
   const openaiFunctionCall: CreateChatCompletionRequestFunctionCall | undefined = props.forcedFunction
     ? { name: props.forcedFunction }
     : undefined;
 
-  const openai = getContext(openAiClientContext);
   const chatCompletionRequest: CreateChatCompletionRequest = {
     model: props.model,
     max_tokens: props.maxTokens,
@@ -406,115 +633,104 @@ export async function* OpenAIChatModel(
     functions: openaiFunctions,
     function_call: openaiFunctionCall,
     stop: props.stop,
-    logit_bias: props.logitBias ? logitBiasOfTokens(props.logitBias) : undefined,
+    logit_bias: logitBiasOfTokens(props, tokenizerForModel(props.model)),
     stream: true,
   };
 
-  logger.debug({ chatCompletionRequest }, 'Calling createChatCompletion');
-  const chatResponse = await openai.createChatCompletion(chatCompletionRequest);
-
-  await checkOpenAIResponse(chatResponse, logger, 'createChatCompletion');
-
-  type ChatCompletionDelta = Merge<
-    CreateChatCompletionResponse,
-    {
-      choices: { delta: Partial<ChatCompletionResponseMessage>; finish_reason: string | undefined }[];
-    }
-  >;
-
-  const iterator = openAiEventsToJson<ChatCompletionDelta>(asyncIteratorOfFetchStream(chatResponse.body!.getReader()))[
-    Symbol.asyncIterator
-  ]();
-
-  // We have a single response iterator, but we'll wrap tokens _within_ the structure of <AssistantMessage> or <FunctionCall>
-  // components. This:
-  //  - Allows our stream to be append-only and therefore eagerly rendered in append-only contexts.
-  //  - Preserves the output structure to allow callers to extract/separate <AssistantMessage> and <FunctionCall> messages.
-  //  - Allows the intermediate states of the stream to include "partial" <FunctionCall> elements with healed JSON.
-  //
-  // This requires some gymnastics because several components will share a single iterator that can only be consumed once.
-  // That is, the logical loop execution is spread over multiple functions (closures over the shared iterator).
-  async function advance(): Promise<Partial<ChatCompletionResponseMessage> | null> {
-    const next = await iterator.next();
-    if (next.done) {
-      return null;
-    }
-
-    logger.trace({ deltaMessage: next.value }, 'Got delta message');
-    return next.value.choices[0].delta;
-  }
-
-  let delta = await advance();
-  while (delta !== null) {
-    if (delta.role === 'assistant') {
-      // Memoize the stream to ensure it renders only once.
-      const assistantStream = memo(
-        (async function* (): AI.RenderableStream {
-          yield AI.AppendOnlyStream;
-
-          while (delta !== null) {
-            if (delta.content) {
-              yield delta.content;
-            }
-            if (delta.function_call) {
-              break;
+  // Under `Samples`, one request generates the choices of several samples.
+  const { choices, index, release } = shareChoices(
+    JSON.stringify(chatCompletionRequest),
+    (n) =>
+      streamChatCompletionChoices(
+        n > 1 ? { ...chatCompletionRequest, n } : chatCompletionRequest,
+        () => countChatPromptTokens(messages, openaiFunctions, tokenizer),
+        { getContext, logger, signal }
+      ),
+    { getContext }
+  );
+  try {
+    // We have a single response iterator, but we'll wrap tokens _within_ the structure of <AssistantMessage> or <FunctionCall>
+    // components. This:
+    //  - Allows our stream to be append-only and therefore eagerly rendered in append-only contexts.
+    //  - Preserves the output structure to allow callers to extract/separate <AssistantMessage> and <FunctionCall> messages.
+    //  - Allows the intermediate states of the stream to include "partial" <FunctionCall> elements with healed JSON.
+    //
+    // This requires some gymnastics because several components will share a single iterator that can only be consumed once.
+    // That is, the logical loop execution is spread over multiple functions (closures over the shared iterator).
+    const advance = () => choices.next(index);
+
+    let delta = await advance();
+    while (delta !== null) {
+      if (delta.role === 'assistant') {
+        // Memoize the stream to ensure it renders only once.
+        const assistantStream = memo(
+          (async function* (): AI.RenderableStream {
+            yield AI.AppendOnlyStream;
+
+            while (delta !== null) {
+              if (delta.content) {
+                yield delta.content;
+              }
+              if (delta.function_call) {
+                break;
+              }
+              delta = await advance();
             }
-            delta = await advance();
-          }
-
-          return AI.AppendOnlyStream;
-        })()
-      );
-      yield <AssistantMessage>{assistantStream}</AssistantMessage>;
-
-      // Ensure the assistantStream is flushed by rendering it.
-      await render(assistantStream);
-    }
 
-    // TS doesn't realize that the assistantStream closure can make `delta` be `null`.
-    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-    if (delta?.function_call) {
-      // Memoize the stream to ensure it renders only once.
-      const functionCallStream = memo(
-        (async function* () {
-          let name = '';
-          let argsJson = '';
-          while (delta != null) {
-            if (!delta.function_call) {
-              break;
-            }
+            return AI.AppendOnlyStream;
+          })()
+        );
+        yield <AssistantMessage>{assistantStream}</AssistantMessage>;
 
-            if (delta.function_call.name) {
-              name += delta.function_call.name;
-            }
+        // Ensure the assistantStream is flushed by rendering it.
+        await render(assistantStream);
+      }
 
-            if (delta.function_call.arguments) {
-              argsJson += delta.function_call.arguments;
+      // TS doesn't realize that the assistantStream closure can make `delta` be `null`.
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+      if (delta?.function_call) {
+        // Memoize the stream to ensure it renders only once.
+        const functionCallStream = memo(
+          (async function* () {
+            let name = '';
+            let argsJson = '';
+            while (delta != null) {
+              if (!delta.function_call) {
+                break;
+              }
+
+              if (delta.function_call.name) {
+                name += delta.function_call.name;
+              }
+
+              if (delta.function_call.arguments) {
+                argsJson += delta.function_call.arguments;
+              }
+
+              yield <FunctionCall partial name={name} args={JSON.parse(patchedUntruncateJson(argsJson || '{}'))} />;
+
+              delta = await advance();
             }
 
-            yield <FunctionCall partial name={name} args={JSON.parse(patchedUntruncateJson(argsJson || '{}'))} />;
-
-            delta = await advance();
-          }
-
-          return <FunctionCall name={name} args={JSON.parse(argsJson || '{}')} />;
-        })()
-      );
-      yield functionCallStream;
+            return <FunctionCall name={name} args={JSON.parse(argsJson || '{}')} />;
+          })()
+        );
+        yield functionCallStream;
 
-      // Ensure the functionCallStream is flushed by rendering it.
-      await render(functionCallStream);
-    }
+        // Ensure the functionCallStream is flushed by rendering it.
+        await render(functionCallStream);
+      }
 
-    // TS doesn't realize that the functionCallStream closure can make `delta` be `null`.
-    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-    if (delta !== null) {
-      delta = await advance();
+      // TS doesn't realize that the functionCallStream closure can make `delta` be `null`.
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+      if (delta !== null) {
+        delta = await advance();
+      }
     }
+  } finally {
+    release();
   }
 
-  logger.debug('Finished createChatCompletion');
-
   return AI.AppendOnlyStream;
 }
 
@@ -528,7 +744,7 @@ export async function* OpenAIChatModel(
  */
 export async function* DalleImageGen(
   { numSamples = 1, size = '512x512', children }: ImageGenPropsWithChildren,
-  { render, getContext, logger }: AI.ComponentContext
+  { render, getContext, logger, signal }: AI.ComponentContext
 ) {
   let sizeEnum;
   switch (size) {
@@ -571,16 +787,39 @@ export async function* DalleImageGen(
 
   logger.debug({ imageRequest }, 'Calling createImage');
 
-  const response = await openai.createImage(imageRequest);
+  const modelCall = startModelCall(
+    { provider: 'openai', model: 'dall-e', images: { count: numSamples, size } },
+    () => 0,
+    { getContext }
+  );
+  let responseJson = undefined as ResponseTypes['createImage'] | undefined;
+  let releaseSlot = () => {};
+  // If there's a deadline, don't let the request outlive it.
+  const timeout = requestTimeout(signal, { getContext });
+  try {
+    releaseSlot = await acquireConcurrencySlot('openai', { getContext });
+    responseJson = await interceptModelCallResult({ getContext }, 'openai.createImage', imageRequest, async () => {
+      const response = await openai.createImage(imageRequest, { signal: timeout.signal });
+
+      if (response.status < 200 || response.status >= 300) {
+        throw new OpenAIError(response, 'createImage', await response.text(), 1024);
+      } else {
+        logger.debug({ statusCode: response.status, headers: response.headers }, 'createImage succeeded');
+      }
 
-  if (response.status < 200 || response.status >= 300) {
-    throw new OpenAIError(response, 'createImage', await response.text(), 1024);
-  } else {
-    logger.debug({ statusCode: response.status, headers: response.headers }, 'createImage succeeded');
+      return (await response.json()) as ResponseTypes['createImage'];
+    });
+  } finally {
+    timeout.clear();
+    releaseSlot();
+    if (responseJson) {
+      modelCall.end({ promptTokens: 0, completionTokens: 0 });
+    } else {
+      modelCall.cancel();
+    }
   }
 
   // return all image URLs as {@link Image} components.
-  const responseJson = (await response.json()) as ResponseTypes['createImage'];
   return responseJson.data.flatMap((image) =>
     image.url ? [<Image url={image.url} prompt={prompt} modelName="Dalle" />] : []
   );
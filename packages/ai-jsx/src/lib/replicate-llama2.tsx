@@ -9,6 +9,11 @@ import {
   UserMessage,
 } from '../core/completion.js';
 import { AIJSXError, ErrorCode } from '../core/errors.js';
+import { acquireConcurrencySlot } from '../core/concurrency.js';
+import { requestTimeout } from '../core/deadline.js';
+import { interceptModelCallResult } from '../core/intercept.js';
+import { gpt2Tokenizer } from '../core/tokenizer.js';
+import { startModelCall } from '../core/usage.js';
 import * as AI from '../index.js';
 import Replicate from 'replicate';
 import { getEnvVar } from './util.js';
@@ -19,15 +24,48 @@ import { getEnvVar } from './util.js';
 async function fetchLlama2<ModelArgs extends Llama2ModelArgs>(
   modelId: Parameters<Replicate['run']>[0],
   input: ModelArgs,
-  logger: AI.ComponentContext['logger']
+  { logger, signal, getContext }: Pick<AI.ComponentContext, 'logger' | 'signal' | 'getContext'>
 ) {
-  const replicate = new Replicate({
-    auth: getEnvVar('REPLICATE_API_TOKEN', true)!,
-  });
-
   logger.debug({ modelId, input }, 'Calling Replicate llama2');
 
-  const output = (await replicate.run(modelId, { input })) as string[];
+  // Replicate doesn't report token usage, and Llama2's tokenizer isn't available, so it's estimated with GPT-2's.
+  const systemPrompt = (input as Partial<Llama2ChatModelArgs>).system_prompt ?? '';
+  const modelCall = startModelCall(
+    { provider: 'replicate', model: modelId.split(':')[0] },
+    () => gpt2Tokenizer.encode(systemPrompt).length + gpt2Tokenizer.encode(input.prompt).length,
+    { getContext }
+  );
+  let output = undefined as string[] | undefined;
+  let releaseSlot = () => {};
+  // If there's a deadline, don't let the requests outlive it.
+  const timeout = requestTimeout(signal, { getContext });
+  try {
+    const replicate = new Replicate({
+      auth: getEnvVar('REPLICATE_API_TOKEN', true)!,
+      // The Replicate client doesn't accept an AbortSignal, so we attach it to each request it makes.
+      fetch: (url: RequestInfo | URL, init?: RequestInit) => fetch(url, { ...init, signal: timeout.signal }),
+    });
+    releaseSlot = await acquireConcurrencySlot('replicate', { getContext });
+    output = await interceptModelCallResult(
+      { getContext },
+      'replicate.run',
+      { modelId, input },
+      async () => (await replicate.run(modelId, { input })) as string[]
+    );
+  } finally {
+    timeout.clear();
+    releaseSlot();
+    if (output) {
+      try {
+        // This throws if the completion goes over a budget, but the call has ended either way.
+        modelCall.addCompletion(output.join(''));
+      } finally {
+        modelCall.end();
+      }
+    } else {
+      modelCall.cancel();
+    }
+  }
   const result = output.join('');
   logger.debug({ result }, 'Replicate llama2 output');
   return result;
@@ -74,6 +112,9 @@ interface Llama2ChatModelArgs extends Llama2ModelArgs {
  */
 export const defaultMaxTokens = 500;
 
+/** The size of Llama2's context window, in tokens. */
+const contextWindow = 4096;
+
 /**
  * Don't use this directly. Instead, wrap your `<ChatCompletion>` element in `<ReplicateLlama2>`.
  *
@@ -81,7 +122,7 @@ export const defaultMaxTokens = 500;
  */
 export async function* Llama2ChatModel(
   props: Llama2ModelProps,
-  { render, logger }: AI.ComponentContext
+  { render, logger, signal, getContext }: AI.ComponentContext
 ): AI.RenderableStream {
   yield AI.AppendOnlyStream;
   const messageElements = (
@@ -147,7 +188,7 @@ export async function* Llama2ChatModel(
       {await fetchLlama2(
         'replicate/llama70b-v2-chat:2d19859030ff705a87c746f7e96eea03aefb71f166725aee39692f1476566d48',
         llama2Args,
-        logger
+        { logger, signal, getContext }
       )}
     </AssistantMessage>
   );
@@ -161,7 +202,7 @@ export async function* Llama2ChatModel(
  */
 export async function* Llama2CompletionModel(
   props: Llama2ModelProps,
-  { render, logger }: AI.ComponentContext
+  { render, logger, signal, getContext }: AI.ComponentContext
 ): AI.RenderableStream {
   yield AI.AppendOnlyStream;
   const prompt = await render(props.children);
@@ -175,7 +216,7 @@ export async function* Llama2CompletionModel(
   const response = await fetchLlama2(
     'replicate/llama70b-v2:14ce4448d5e7e9ed0c37745ac46eca157aab09061f0c179ac2b323b5de56552b',
     llama2Args,
-    logger
+    { logger, signal, getContext }
   );
   yield response;
   return AI.AppendOnlyStream;
@@ -201,7 +242,7 @@ export async function* Llama2CompletionModel(
  */
 export function ReplicateLlama2({ children, ...defaults }: Llama2ModelProps) {
   return (
-    <ChatProvider component={Llama2ChatModel} {...defaults}>
+    <ChatProvider component={Llama2ChatModel} contextWindow={contextWindow} {...defaults}>
       <CompletionProvider component={Llama2CompletionModel} {...defaults}>
         {children}
       </CompletionProvider>
@@ -0,0 +1,222 @@
+/**
+ * This module provides fake models that respond according to a script, for testing AI.JSX apps without making
+ * any network requests.
+ * @packageDocumentation
+ */
+
+import * as AI from '../index.js';
+import {
+  AssistantMessage,
+  FunctionCall,
+  FunctionDefinition,
+  ModelProps,
+  ModelPropsWithChildren,
+  RenderedChatMessage,
+  renderChatMessages,
+} from '../core/completion.js';
+import { AIJSXError, ErrorCode } from '../core/errors.js';
+import { PropsOfComponent } from '../index.js';
+
+/**
+ * A message sent to a {@link ScriptedChatModel}.
+ */
+export type ScriptedChatMessage = RenderedChatMessage;
+
+/**
+ * A request received by a scripted model. Chat models receive `messages`; completion models receive a `prompt`.
+ */
+export interface ScriptedModelRequest extends ModelProps {
+  messages?: ScriptedChatMessage[];
+  prompt?: string;
+  functionDefinitions?: Record<string, FunctionDefinition>;
+  forcedFunction?: string;
+}
+
+/**
+ * Part of a scripted model's response: either the text of an `AssistantMessage`, or a `FunctionCall`.
+ */
+export type ScriptedResponsePart = string | { functionCall: PropsOfComponent<typeof FunctionCall> };
+
+/**
+ * A scripted model's response: a single part, or several (e.g. to call several functions at once). Completion models
+ * can only respond with text.
+ */
+export type ScriptedModelResponse = ScriptedResponsePart | ScriptedResponsePart[];
+
+/**
+ * A rule in a {@link ModelScript}.
+ */
+export interface ScriptedRule {
+  /**
+   * Which requests the rule applies to. A string or `RegExp` is matched against the prompt (for completion models)
+   * or the content of the last message (for chat models). If omitted, the rule matches every request.
+   */
+  match?: string | RegExp | ((request: ScriptedModelRequest) => boolean);
+
+  /** The response to matching requests. */
+  response: ScriptedModelResponse | ((request: ScriptedModelRequest) => ScriptedModelResponse);
+
+  /** The number of times the rule can be used. If omitted, it can be used any number of times. */
+  times?: number;
+}
+
+/**
+ * A script for {@link ScriptedChatModel} and {@link ScriptedCompletionModel}. Each request is answered by the first
+ * rule that matches it, and every request is recorded in `requests` so that tests can make assertions about them.
+ *
+ * @example
+ * ```tsx
+ *  const script = new ModelScript([
+ *    { match: /weather/, response: { functionCall: { name: 'getWeather', args: { city: 'Paris' } } }, times: 1 },
+ *    { response: 'It is sunny in Paris.' },
+ *  ]);
+ *
+ *  await AI.createRenderContext().render(
+ *    <ChatProvider component={ScriptedChatModel} script={script}>
+ *      <App />
+ *    </ChatProvider>
+ *  );
+ *
+ *  expect(script.requests).toHaveLength(2);
+ * ```
+ */
+export class ModelScript {
+  /** The requests received so far, in order. */
+  readonly requests: ScriptedModelRequest[] = [];
+  private readonly uses = new Map<ScriptedRule, number>();
+
+  constructor(private readonly rules: ScriptedRule[]) {}
+
+  /** @hidden */
+  respond(request: ScriptedModelRequest): ScriptedModelResponse {
+    this.requests.push(request);
+
+    const rule = this.rules.find(
+      (rule) => (rule.times === undefined || (this.uses.get(rule) ?? 0) < rule.times) && matches(rule, request)
+    );
+    if (!rule) {
+      throw new AIJSXError(
+        'No rule in the ModelScript matched the request.',
+        ErrorCode.ScriptedModelUnmatchedRequest,
+        'user',
+        { request: JSON.parse(JSON.stringify(request)) }
+      );
+    }
+
+    this.uses.set(rule, (this.uses.get(rule) ?? 0) + 1);
+    return typeof rule.response === 'function' ? rule.response(request) : rule.response;
+  }
+}
+
+function matches(rule: ScriptedRule, request: ScriptedModelRequest) {
+  if (rule.match === undefined) {
+    return true;
+  }
+  if (typeof rule.match === 'function') {
+    return rule.match(request);
+  }
+
+  const lastMessage = request.messages?.[request.messages.length - 1];
+  const text =
+    request.prompt ??
+    (lastMessage && ('content' in lastMessage ? lastMessage.content : JSON.stringify(lastMessage.args))) ??
+    '';
+  return typeof rule.match === 'string' ? text.includes(rule.match) : rule.match.test(text);
+}
+
+/**
+ * Splits text into word-sized tokens (each including its trailing whitespace) to simulate streaming.
+ */
+function tokenize(text: string) {
+  return text.match(/\s*\S+\s*/g) ?? [text];
+}
+
+async function* streamTokens(text: string): AI.RenderableStream {
+  yield AI.AppendOnlyStream;
+  for (const token of tokenize(text)) {
+    yield token;
+  }
+  return AI.AppendOnlyStream;
+}
+
+/**
+ * A fake chat model that responds according to a {@link ModelScript}. Text responses are streamed token by token
+ * within an `AssistantMessage`, and function calls are streamed as partial `FunctionCall`s, just like
+ * `OpenAIChatModel` does.
+ *
+ * Use it with a `ChatProvider`:
+ * ```tsx
+ *  <ChatProvider component={ScriptedChatModel} script={script}>
+ *    <App />
+ *  </ChatProvider>
+ * ```
+ */
+export async function* ScriptedChatModel(
+  {
+    script,
+    children,
+    ...props
+  }: ModelPropsWithChildren & {
+    script: ModelScript;
+    functionDefinitions?: Record<string, FunctionDefinition>;
+    forcedFunction?: string;
+  },
+  { render, memo }: AI.ComponentContext
+): AI.RenderableStream {
+  yield AI.AppendOnlyStream;
+
+  const response = script.respond({ ...props, messages: await renderChatMessages(children, render) });
+
+  for (const part of Array.isArray(response) ? response : [response]) {
+    if (typeof part === 'string') {
+      // Memoize the stream to ensure it renders only once.
+      const assistantStream = memo(streamTokens(part));
+      yield <AssistantMessage>{assistantStream}</AssistantMessage>;
+      await render(assistantStream);
+      continue;
+    }
+
+    const { name, args } = part.functionCall;
+    const functionCallStream = memo(
+      (async function* () {
+        // Reveal the arguments one property at a time, as a real model would.
+        const partialArgs = {} as typeof args;
+        for (const [key, value] of Object.entries(args)) {
+          // Copy the arguments so far, so that frames that have already been yielded don't change.
+          yield <FunctionCall partial name={name} args={{ ...partialArgs }} />;
+          partialArgs[key] = value;
+        }
+        return <FunctionCall name={name} args={args} />;
+      })()
+    );
+    yield functionCallStream;
+    await render(functionCallStream);
+  }
+  return AI.AppendOnlyStream;
+}
+
+/**
+ * A fake completion model that responds according to a {@link ModelScript}, streaming its responses token by token.
+ *
+ * Use it with a `CompletionProvider`:
+ * ```tsx
+ *  <CompletionProvider component={ScriptedCompletionModel} script={script}>
+ *    <App />
+ *  </CompletionProvider>
+ * ```
+ */
+export async function* ScriptedCompletionModel(
+  { script, children, ...props }: ModelPropsWithChildren & { script: ModelScript },
+  { render }: AI.ComponentContext
+): AI.RenderableStream {
+  const response = script.respond({ ...props, prompt: await render(children) });
+  if (typeof response !== 'string') {
+    throw new AIJSXError(
+      "ScriptedCompletionModel can only respond with text, but the matching rule's response was a function call or had several parts.",
+      ErrorCode.ScriptedCompletionModelBadResponse,
+      'user'
+    );
+  }
+
+  return yield* streamTokens(response);
+}
@@ -1,4 +1,5 @@
 import untruncateJson from 'untruncate-json';
+import { Jsonifiable } from 'type-fest';
 import { AIJSXError } from '../core/errors.js';
 
 /** @hidden */
@@ -27,3 +28,40 @@ export function getEnvVar(name: string, shouldThrow: boolean = true) {
  */
 /** @hidden */
 export const patchedUntruncateJson = 'default' in untruncateJson ? untruncateJson.default : untruncateJson;
+
+/**
+ * Recursively sorts object keys and drops `undefined` values so that equivalent values serialize identically.
+ * @hidden
+ */
+export function normalize(value: unknown): Jsonifiable {
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+        .map((key) => [key, normalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value as Jsonifiable;
+}
+
+/**
+ * A 53-bit string hash (cyrb53). It isn't cryptographically secure, but it's plenty to tell requests apart
+ * and doesn't depend on Node or WebCrypto APIs.
+ * @hidden
+ */
+export function hash(str: string) {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
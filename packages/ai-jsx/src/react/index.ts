@@ -39,45 +39,51 @@ function unwrapReact(partiallyRendered: AI.PartiallyRendered): ReactModule.React
 /**
  * Renders an AI.jsx component into React. Used by the <AI.jsx> element internally but
  * can be used directly an entrypoint into AI.jsx.
+ *
+ * @param coalesce Limits how often the result updates while streaming (see {@link AI.FrameCoalescingOpts}),
+ *   for instance to avoid re-rendering for every token.
  */
-export function useAI(children: AI.Node, onStreamStart?: () => void, onStreamEnd?: () => void) {
+export function useAI(
+  children: AI.Node,
+  onStreamStart?: () => void,
+  onStreamEnd?: () => void,
+  coalesce?: boolean | AI.FrameCoalescingOpts
+) {
   const [result, setResult] = ReactModule.useState([] as ReactModule.ReactNode);
   const [isDone, setIsDone] = ReactModule.useState(false);
 
   ReactModule.useEffect(() => {
-    let shouldStop = false;
+    const abortController = new AbortController();
     async function stream() {
       setResult([]);
       onStreamStart?.();
       setIsDone(false);
 
-      // TODO: add a way for a render context to be aborted
-      const renderResult = AI.createRenderContext().render(children, {
+      const renderResult = AI.createRenderContext({ signal: abortController.signal }).render(children, {
         stop: (e) => boundaryElements.some((special) => special.tag === e.tag),
         map: (frame) => frame.map(unwrapReact),
+        coalesce,
       });
       for await (const reactFrame of renderResult) {
-        if (shouldStop) {
-          return;
-        }
-
         setResult(reactFrame);
       }
 
       const final = await renderResult;
-      if (shouldStop) {
-        return;
-      }
       setResult(final.map(unwrapReact));
       onStreamEnd?.();
       setIsDone(true);
     }
 
-    stream();
+    stream().catch((error) => {
+      // Errors caused by unmounting are expected.
+      if (!abortController.signal.aborted) {
+        throw error;
+      }
+    });
 
     return () => {
       onStreamEnd?.();
-      shouldStop = true;
+      abortController.abort();
     };
   }, [children]);
 
@@ -176,19 +182,23 @@ export function useAIStream(options: UseAIStreamOpts = {}): UseAIStreamResult {
   const [currentStream, setCurrentStream] = ReactModule.useState<ReadableStream<ReactModule.ReactNode> | null>(null);
   const [currentUI, setCurrentUI] = ReactModule.useState(null as ReactModule.ReactNode);
   const [error, setError] = ReactModule.useState(null as Error | null);
+  const abortControllerRef = ReactModule.useRef(null as AbortController | null);
 
   const onComplete = options.onComplete ?? ((x) => x);
 
   ReactModule.useEffect(() => {
     let shouldStopValue = false;
     const getShouldStop = () => shouldStopValue;
+    const reader = currentStream?.getReader();
 
     async function readStream() {
-      if (currentStream !== null) {
-        const reader = currentStream.getReader();
+      if (reader) {
         let lastUI: ReactModule.ReactNode = null;
-        while (!getShouldStop()) {
+        while (true) {
           const { done, value } = await reader.read();
+          if (getShouldStop()) {
+            break;
+          }
           if (done) {
             setCurrentStream(null);
             setCurrentUI(onComplete(lastUI));
@@ -202,18 +212,34 @@ export function useAIStream(options: UseAIStreamOpts = {}): UseAIStreamResult {
       }
     }
 
-    readStream();
+    readStream().catch((error) => {
+      if (!getShouldStop()) {
+        options.onError?.(error);
+        setError(error);
+      }
+    });
 
     return () => {
       shouldStopValue = true;
+      // Cancelling the reader propagates to the response body, which closes the connection to the server.
+      reader?.cancel().catch(() => {});
     };
   }, [currentStream]);
 
+  // Abort any in-flight request when the component unmounts.
+  ReactModule.useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   return {
     current: currentUI,
     error,
-    fetchAI(...fetchArguments: Parameters<typeof fetch>) {
-      fetch(...fetchArguments)
+    fetchAI(...[input, init]: Parameters<typeof fetch>) {
+      // Only one request can be in flight at a time, so abort any previous one.
+      abortControllerRef.current?.abort();
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      init?.signal?.addEventListener('abort', () => abortController.abort(), { once: true });
+
+      fetch(input, { ...init, signal: abortController.signal })
         .then(async (response) => {
           if (!response.ok) {
             throw new AIJSXError(
@@ -230,6 +256,9 @@ export function useAIStream(options: UseAIStreamOpts = {}): UseAIStreamResult {
           setError(null);
         })
         .catch((error) => {
+          if (abortController.signal.aborted) {
+            return;
+          }
           options.onError?.(error);
           setError(error);
         });
@@ -246,7 +275,14 @@ export const jsx = asJsxBoundary(function jsx(
     onStreamStart,
     onStreamEnd,
     loading = '',
-  }: { children: AI.Node; onStreamStart?: () => void; onStreamEnd?: () => void; loading?: React.ReactNode },
+    coalesce,
+  }: {
+    children: AI.Node;
+    onStreamStart?: () => void;
+    onStreamEnd?: () => void;
+    loading?: React.ReactNode;
+    coalesce?: boolean | AI.FrameCoalescingOpts;
+  },
   context?: any | AI.ComponentContext
 ) {
   if (typeof context?.render === 'function') {
@@ -254,7 +290,7 @@ export const jsx = asJsxBoundary(function jsx(
     return children;
   }
 
-  const ai = useAI(children, onStreamStart, onStreamEnd);
+  const ai = useAI(children, onStreamStart, onStreamEnd, coalesce);
   const waitingForFirstAIResponse = !ai.isDone && Array.isArray(ai.result) && ai.result.length === 0;
 
   return ReactModule.createElement(ReactModule.Fragment, null, waitingForFirstAIResponse ? loading : ai.result) as any;
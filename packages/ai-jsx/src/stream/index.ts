@@ -8,6 +8,7 @@ import {
   isIndirectNode,
   getReferencedNode,
   createRenderContext,
+  FrameCoalescingOpts,
 } from '../index.js';
 import { Jsonifiable } from 'type-fest';
 
@@ -39,40 +40,49 @@ async function* renderToJsonEvents(
 ): AsyncGenerator<StreamEvent<PartiallyRendered>, StreamEvent<PartiallyRendered>> {
   const asyncIterator = renderResult[Symbol.asyncIterator]();
   let lastFrame = null as PartiallyRendered[] | null;
-  while (true) {
-    const { done, value: frame } = await asyncIterator.next();
-    if (lastFrame !== null && lastFrame.length === frame.length) {
-      const deltas = [] as StreamEvent<PartiallyRendered>[];
-      for (let i = 0; i < frame.length; ++i) {
-        const previous = lastFrame[i];
-        const current = frame[i];
+  let isDone = false;
+  try {
+    while (true) {
+      const { done, value: frame } = await asyncIterator.next();
+      isDone = Boolean(done);
+      if (lastFrame !== null && lastFrame.length === frame.length) {
+        const deltas = [] as StreamEvent<PartiallyRendered>[];
+        for (let i = 0; i < frame.length; ++i) {
+          const previous = lastFrame[i];
+          const current = frame[i];
 
-        if (previous === current) {
-          // No change.
-          continue;
-        }
+          if (previous === current) {
+            // No change.
+            continue;
+          }
 
-        if (typeof current === 'string' && typeof previous === 'string' && current.startsWith(previous)) {
-          // The change was a simple append.
-          deltas.push({ type: 'append', index: i, content: current.slice(previous.length) });
-          continue;
+          if (typeof current === 'string' && typeof previous === 'string' && current.startsWith(previous)) {
+            // The change was a simple append.
+            deltas.push({ type: 'append', index: i, content: current.slice(previous.length) });
+            continue;
+          }
+
+          deltas.push({ type: 'replace', index: i, content: current });
         }
 
-        deltas.push({ type: 'replace', index: i, content: current });
+        if (deltas.length === 1) {
+          yield deltas[0];
+        } else if (deltas.length > 1) {
+          yield { type: 'multiple', events: deltas };
+        }
+      } else {
+        yield { type: 'all', content: frame };
       }
 
-      if (deltas.length === 1) {
-        yield deltas[0];
-      } else if (deltas.length > 1) {
-        yield { type: 'multiple', events: deltas };
+      lastFrame = frame;
+      if (done) {
+        break;
       }
-    } else {
-      yield { type: 'all', content: frame };
     }
-
-    lastFrame = frame;
-    if (done) {
-      break;
+  } finally {
+    if (!isDone) {
+      // The consumer stopped early, so tear down the render.
+      asyncIterator.return?.().catch(() => {});
     }
   }
 
@@ -107,6 +117,9 @@ function jsonReplacerFromSerializer(serializer: ElementSerializer) {
 
 /**
  * Generate a stream of JSON-serialized events from a {@link RenderResult}.
+ *
+ * Frames are pulled from the `RenderResult` as the stream is read, so to keep a slow reader from holding up
+ * rendering, render with the `coalesce` option.
  */
 export function toEventStream(
   renderResult: RenderResult<PartiallyRendered[], PartiallyRendered[]>
@@ -120,17 +133,54 @@ export function toEventStream(
         controller.close();
       }
     },
+    async cancel() {
+      await generator.return({ type: 'complete' });
+    },
+  });
+}
+
+/**
+ * Wraps a stream such that cancelling it (e.g. because an HTTP client disconnected) aborts
+ * the provided `AbortController`.
+ */
+function abortOnCancel<T>(stream: ReadableStream<T>, abortController: AbortController): ReadableStream<T> {
+  const reader = stream.getReader();
+  return new ReadableStream<T>({
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      abortController.abort(reason);
+      return reader.cancel(reason);
+    },
   });
 }
 
 /**
  * Convert a {@link Renderable} to a {@link Response} that will stream the rendered
- * content as SSE events.
+ * content as SSE events. If the client disconnects, rendering is aborted.
+ *
+ * @param coalesce How to coalesce frames (see {@link FrameCoalescingOpts}). With `true`, a client that reads more
+ *   slowly than the content renders only receives the latest frame each time it reads. By default, every frame is
+ *   sent.
  */
-export function toStreamResponse(renderable: Renderable): Response {
-  const renderResult = createRenderContext().render(renderable, { stop: () => false, map: (x) => x });
+export function toStreamResponse(
+  renderable: Renderable,
+  { coalesce = false }: { coalesce?: boolean | FrameCoalescingOpts } = {}
+): Response {
+  const abortController = new AbortController();
+  const renderResult = createRenderContext({ signal: abortController.signal }).render(renderable, {
+    stop: () => false,
+    map: (x) => x,
+    coalesce,
+  });
   return new Response(
-    toEventStream(renderResult)
+    abortOnCancel(toEventStream(renderResult), abortController)
       .pipeThrough(
         new TransformStream<StreamEvent<PartiallyRendered>, string>({
           transform(streamEvent, controller) {
@@ -178,10 +228,19 @@ export function toSerializedStreamResponse(
  * content as an append-only UTF-8 encoded text stream. Compared to {@link toStreamResponse},
  * this allows the response to be easily consumed by other frameworks (such as https://sdk.vercel.ai/)
  * but does not support UI components or concurrently streaming multiple parts of the tree.
+ *
+ * @param coalesce How to coalesce frames (see {@link FrameCoalescingOpts}). With `true`, a stream that's read more
+ *   slowly than the content renders only gets the latest text each time it's read. By default, every frame is sent.
  */
-export function toTextStream(renderable: Renderable, logger?: LogImplementation): ReadableStream<Uint8Array> {
+export function toTextStream(
+  renderable: Renderable,
+  logger?: LogImplementation,
+  coalesce: boolean | FrameCoalescingOpts = false
+): ReadableStream<Uint8Array> {
   let previousValue = '';
-  const generator = createRenderContext({ logger }).render(renderable, { appendOnly: true })[Symbol.asyncIterator]();
+  const abortController = new AbortController();
+  const renderContext = createRenderContext({ logger, signal: abortController.signal });
+  const generator = renderContext.render(renderable, { appendOnly: true, coalesce })[Symbol.asyncIterator]();
   return new ReadableStream({
     async pull(controller) {
       const next = await generator.next();
@@ -193,6 +252,9 @@ export function toTextStream(renderable: Renderable, logger?: LogImplementation)
         controller.close();
       }
     },
+    cancel(reason) {
+      abortController.abort(reason);
+    },
   }).pipeThrough(new TextEncoderStream());
 }
 
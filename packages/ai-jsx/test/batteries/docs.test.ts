@@ -6,9 +6,12 @@ import {
   LoadableLangchainCorpus,
   LocalCorpus,
   RawLoader,
+  makeChunker,
   staticLoader,
   toLoader,
 } from '../../dist/cjs/batteries/docs.cjs';
+import { ErrorCode } from '../../dist/cjs/core/errors.cjs';
+import { gpt2Tokenizer } from '../../dist/cjs/core/tokenizer.cjs';
 
 test('defaultParser handles simple text', async () => {
   const rawDoc = {
@@ -47,6 +50,27 @@ test('staticLoader supports pagination', async () => {
   expect(response3.partitions).toBeUndefined();
 });
 
+test('makeChunker splits each piece of content into overlapping chunks of tokens', async () => {
+  const chunker = makeChunker(4, 1);
+  const doc = { name: 'numbers.txt', pageContent: [' one two three four five six seven', ' eight'] };
+
+  expect(await chunker(doc)).toEqual(
+    [' one two three four', ' four five six seven', ' eight'].map((content) => ({
+      content,
+      documentName: 'numbers.txt',
+    }))
+  );
+});
+
+test('makeChunker counts tokens with the given tokenizer', async () => {
+  // GPT-2 splits each digit into its own token, while cl100k_base groups them in threes.
+  expect((await makeChunker(3, 0)({ pageContent: ['123456789'] })).map((chunk) => chunk.content)).toEqual([
+    '123456789',
+  ]);
+  expect((await makeChunker(3, 0, gpt2Tokenizer)({ pageContent: ['123456789'] })).length).toBeGreaterThan(1);
+  expect(() => makeChunker(3, 3)).toThrow(expect.objectContaining({ code: ErrorCode.ChunkerBadInput }));
+});
+
 describe('corpus loading and search', () => {
   const docs = [
     { name: 'doc1.txt', pageContent: ['Hello world1!'] },
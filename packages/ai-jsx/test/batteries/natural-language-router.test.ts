@@ -0,0 +1,54 @@
+import * as AI from '../../dist/cjs/index.cjs';
+import { ChatProvider } from '../../dist/cjs/core/completion.cjs';
+import { ModelScript, ScriptedChatModel } from '../../dist/cjs/lib/scripted.cjs';
+import { NaturalLanguageRouter, Route } from '../../dist/cjs/batteries/natural-language-router.cjs';
+import { createElement } from '../helpers/create-element.js';
+
+/** Routes a query between twelve routes and an unmatched one, with the model replying `reply`. */
+async function route(reply: string) {
+  const script = new ModelScript([{ response: reply }]);
+  const routes = Array.from({ length: 12 }, (_, i) => createElement(Route, { when: `topic ${i}` }, `route ${i}`));
+  const result = await AI.createRenderContext().render(
+    createElement(
+      ChatProvider,
+      { component: ScriptedChatModel, script },
+      createElement(
+        NaturalLanguageRouter,
+        { query: 'Tell me about topic 11.' },
+        ...routes,
+        createElement(Route, { unmatched: true }, 'no route')
+      )
+    )
+  );
+  return { result, request: script.requests[0] };
+}
+
+test('picks between any number of routes', async () => {
+  const { result, request } = await route('11');
+
+  expect(result).toBe('route 11');
+  expect(request.maxTokens).toBe(2);
+  expect((request as { logitBias?: object }).logitBias).toEqual({
+    0: 100,
+    1: 100,
+    2: 100,
+    3: 100,
+    4: 100,
+    5: 100,
+    6: 100,
+    7: 100,
+    8: 100,
+    9: 100,
+  });
+  const prompt = (request.messages![0] as { content: string }).content;
+  expect(prompt).toContain('00: topic 0 01: topic 1');
+  expect(prompt).toContain('11: topic 11 12: None of the routes match');
+
+  expect((await route('05')).result).toBe('route 5');
+});
+
+test('picks the unmatched route when the model does', async () => {
+  expect((await route('12')).result).toBe('no route');
+  // A reply that isn't one of the choices counts as no match.
+  expect((await route('99')).result).toBe('no route');
+});
@@ -0,0 +1,73 @@
+import * as AI from '../../dist/cjs/index.cjs';
+import { ChatCompletion, ChatProvider, SystemMessage, UserMessage } from '../../dist/cjs/core/completion.cjs';
+import { Embedding } from '../../dist/cjs/batteries/docs.cjs';
+import {
+  MemorySemanticCacheStore,
+  SemanticCache,
+  SemanticCacheMetrics,
+} from '../../dist/cjs/batteries/semantic-cache.cjs';
+import { ModelScript, ScriptedChatModel } from '../../dist/cjs/lib/scripted.cjs';
+import { createElement } from '../helpers/create-element.js';
+
+/** Embeds text as counts of the words in a small vocabulary, so that questions sharing words are similar. */
+const vocabulary = ['what', 'is', 'the', 'capital', 'of', 'france', 'germany', 'city'];
+const wordEmbedding: Embedding = {
+  embed(text: string) {
+    const words = text.toLowerCase().match(/\w+/g) ?? [];
+    return Promise.resolve(vocabulary.map((word) => words.filter((w) => w === word).length));
+  },
+  embedBatch(chunks: string[]) {
+    return Promise.all(chunks.map((chunk) => this.embed(chunk)));
+  },
+};
+
+function cachedChat(script: ModelScript, cacheProps: Record<string, unknown>, ...messages: AI.Node[]) {
+  return createElement(
+    ChatProvider,
+    { component: ScriptedChatModel, script },
+    createElement(
+      SemanticCache,
+      { embedding: wordEmbedding, ...cacheProps },
+      createElement(ChatCompletion, null, ...messages)
+    )
+  );
+}
+
+test('reuses answers to similar questions', async () => {
+  const script = new ModelScript([
+    { match: 'France', response: 'Paris.' },
+    { match: 'Germany', response: 'Berlin.' },
+  ]);
+  const store = new MemorySemanticCacheStore();
+  const metrics = new SemanticCacheMetrics();
+  const ask = (question: string) =>
+    AI.createRenderContext().render(
+      cachedChat(script, { store, metrics, threshold: 0.9 }, createElement(UserMessage, null, question))
+    );
+
+  expect(await ask('What is the capital of France?')).toBe('Paris.');
+  expect(await ask('What is the capital city of France?')).toBe('Paris.');
+  expect(await ask('What is the capital of Germany?')).toBe('Berlin.');
+  expect(script.requests).toHaveLength(2);
+  expect(metrics).toMatchObject({ hits: 1, misses: 2, lookups: 3 });
+  expect(metrics.hitRate).toBeCloseTo(1 / 3);
+});
+
+test('only reuses answers given with the same system messages', async () => {
+  const script = new ModelScript([{ response: 'Paris.' }]);
+  const store = new MemorySemanticCacheStore();
+  const ask = (system: string) =>
+    AI.createRenderContext().render(
+      cachedChat(
+        script,
+        { store },
+        createElement(SystemMessage, null, system),
+        createElement(UserMessage, null, 'What is the capital of France?')
+      )
+    );
+
+  await ask('Be concise.');
+  await ask('Be concise.');
+  await ask('Be verbose.');
+  expect(script.requests).toHaveLength(2);
+});
@@ -0,0 +1,90 @@
+import * as AI from '../../dist/cjs/index.cjs';
+import { MemoryCacheStore } from '../../dist/cjs/core/cache.cjs';
+import { ChatCompletion, ChatProvider } from '../../dist/cjs/core/completion.cjs';
+import { ModelScript, ScriptedChatModel } from '../../dist/cjs/lib/scripted.cjs';
+import { SummarizedHistory } from '../../dist/cjs/batteries/summarized-history.cjs';
+import { createElement } from '../helpers/create-element.js';
+
+// Counts words rather than tokens, so that each message below takes up 30 "tokens": 3 of formatting, its role, its
+// number and 25 more words.
+const wordTokenizer = {
+  name: 'words',
+  encode: (text: string) =>
+    text
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((_, i) => i),
+  decode: () => '',
+};
+const conversation = Array.from({ length: 7 }, (_, i) => ({
+  role: i % 2 ? 'assistant' : 'user',
+  content: `m${i}${' a'.repeat(25)}`,
+}));
+
+/** Renders a turn of the conversation that includes its first `length` messages. */
+function renderTurn(script: ModelScript, store: MemoryCacheStore, length: number) {
+  return AI.createRenderContext().render(
+    createElement(
+      ChatProvider,
+      { component: ScriptedChatModel, script },
+      createElement(
+        ChatCompletion,
+        null,
+        createElement(SummarizedHistory, {
+          messages: conversation.slice(0, length),
+          maxTokens: 100,
+          maxSummaryTokens: 20,
+          tokenizer: wordTokenizer,
+          store,
+        })
+      )
+    )
+  );
+}
+
+test('summarizes older messages once the history no longer fits', async () => {
+  const script = new ModelScript([
+    { match: /Summarize these messages|Update it with/, response: 'summary 1', times: 1 },
+    { match: /Update it with/, response: 'summary 2', times: 1 },
+    { response: 'OK' },
+  ]);
+  const store = new MemoryCacheStore();
+  const lastRequest = () => script.requests[script.requests.length - 1];
+  const summarizerPrompt = (i: number) => (script.requests[i].messages![1] as { content: string }).content;
+
+  // Two messages fit in the 80 tokens left for verbatim messages.
+  await renderTurn(script, store, 2);
+  expect(lastRequest().messages).toEqual(conversation.slice(0, 2));
+
+  // Summarizing leaves half that room free.
+  await renderTurn(script, store, 4);
+  expect(script.requests).toHaveLength(3);
+  expect(script.requests[1].maxTokens).toBe(20);
+  expect(summarizerPrompt(1)).toContain('Summarize these messages:\nuser: m0');
+  expect(lastRequest().messages).toEqual([
+    { role: 'system', content: 'Here is a summary of the earlier conversation: summary 1' },
+    conversation[3],
+  ]);
+
+  // The summary is reused while the messages since fit.
+  await renderTurn(script, store, 5);
+  expect(script.requests).toHaveLength(4);
+  expect(lastRequest().messages).toEqual([
+    { role: 'system', content: 'Here is a summary of the earlier conversation: summary 1' },
+    conversation[3],
+    conversation[4],
+  ]);
+
+  // Once they don't, it's updated with the messages since.
+  await renderTurn(script, store, 7);
+  expect(script.requests).toHaveLength(6);
+  const update = summarizerPrompt(4);
+  expect(update).toContain('Here is a summary of the conversation so far:\nsummary 1');
+  expect(update).toContain('assistant: m3');
+  expect(update).toContain('assistant: m5');
+  expect(update).not.toContain('m6');
+  expect(lastRequest().messages).toEqual([
+    { role: 'system', content: 'Here is a summary of the earlier conversation: summary 2' },
+    conversation[6],
+  ]);
+});
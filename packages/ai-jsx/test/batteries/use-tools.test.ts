@@ -0,0 +1,226 @@
+import * as AI from '../../dist/cjs/index.cjs';
+import { ChatProvider, UserMessage } from '../../dist/cjs/core/completion.cjs';
+import { AIJSXError, ErrorCode } from '../../dist/cjs/core/errors.cjs';
+import { ModelScript, ScriptedChatModel } from '../../dist/cjs/lib/scripted.cjs';
+import z from 'zod';
+import { Tool, UseTools, defineTool } from '../../dist/cjs/batteries/use-tools.cjs';
+import { createElement } from '../helpers/create-element.js';
+
+const cities = ['Paris', 'Tokyo', 'Lima'];
+
+/** A weather tool that answers for earlier cities more slowly, and records how many calls run at once. */
+function slowWeatherTool() {
+  const tool = {
+    running: 0,
+    maxRunning: 0,
+    description: 'Gets the weather',
+    parameters: { city: { type: 'string', required: true } },
+    func: async ({ city }: { city: string }) => {
+      tool.running++;
+      tool.maxRunning = Math.max(tool.maxRunning, tool.running);
+      await new Promise((resolve) => setTimeout(resolve, 10 * (cities.length - cities.indexOf(city))));
+      tool.running--;
+      return `It is sunny in ${city}.`;
+    },
+  };
+  return tool;
+}
+
+async function askForWeather(tool: ReturnType<typeof slowWeatherTool>, maxConcurrentToolCalls?: number) {
+  const script = new ModelScript([
+    {
+      match: 'weather',
+      response: cities.map((city) => ({ functionCall: { name: 'getWeather', args: { city } } })),
+    },
+    { response: 'It is sunny everywhere.' },
+  ]);
+
+  const result = await AI.createRenderContext().render(
+    createElement(
+      ChatProvider,
+      { component: ScriptedChatModel, script },
+      createElement(
+        UseTools,
+        { tools: { getWeather: tool }, maxConcurrentToolCalls },
+        createElement(UserMessage, null, "What's the weather in Paris, Tokyo and Lima?")
+      )
+    )
+  );
+  return { result, script };
+}
+
+test('runs all the function calls of a response concurrently', async () => {
+  const tool = slowWeatherTool();
+  const { result, script } = await askForWeather(tool);
+
+  expect(result).toBe('It is sunny everywhere.');
+  expect(tool.maxRunning).toBe(3);
+  // The responses are in the order of the calls, not the order they finished in.
+  expect(script.requests[1].messages).toEqual([
+    { role: 'user', content: "What's the weather in Paris, Tokyo and Lima?" },
+    ...cities.map((city) => ({ role: 'functionCall', name: 'getWeather', args: { city } })),
+    ...cities.map((city) => ({ role: 'functionResponse', name: 'getWeather', content: `It is sunny in ${city}.` })),
+  ]);
+});
+
+test('limits how many function calls run at once', async () => {
+  const tool = slowWeatherTool();
+  const { result, script } = await askForWeather(tool, 2);
+
+  expect(result).toBe('It is sunny everywhere.');
+  expect(tool.maxRunning).toBe(2);
+  expect(script.requests[1].messages!.slice(4)).toEqual(
+    cities.map((city) => ({ role: 'functionResponse', name: 'getWeather', content: `It is sunny in ${city}.` }))
+  );
+});
+
+test('rejects a bad limit on concurrent function calls', async () => {
+  for (const maxConcurrentToolCalls of [0, NaN]) {
+    await expect(askForWeather(slowWeatherTool(), maxConcurrentToolCalls)).rejects.toThrow(
+      new AIJSXError(
+        `maxConcurrentToolCalls must be at least 1, but got ${maxConcurrentToolCalls}.`,
+        ErrorCode.UseToolsBadInput,
+        'user'
+      )
+    );
+  }
+});
+
+/** Has the model call `getWeather` with `badArgs` and then, once told they're invalid, with `{ city: 'Paris' }`. */
+async function correctArgs(getWeather: object, badArgs: Record<string, string | number>) {
+  const script = new ModelScript([
+    { match: 'weather', response: { functionCall: { name: 'getWeather', args: badArgs } } },
+    { match: 'invalid', response: { functionCall: { name: 'getWeather', args: { city: 'Paris' } } } },
+    { response: 'It is sunny in Paris.' },
+  ]);
+
+  const result = await AI.createRenderContext().render(
+    createElement(
+      ChatProvider,
+      { component: ScriptedChatModel, script },
+      createElement(UseTools, { tools: { getWeather } }, createElement(UserMessage, null, "What's the weather?"))
+    )
+  );
+
+  expect(result).toBe('It is sunny in Paris.');
+  return (script.requests[1].messages![2] as { content: string }).content;
+}
+
+test('validates arguments against Zod schemas', async () => {
+  const func = jest.fn(({ city, days }: { city: string; days: number }) => `It is sunny in ${city} for ${days} days.`);
+  const getWeather = defineTool({
+    description: 'Gets the weather',
+    parameters: z.object({ city: z.string(), days: z.number().default(1) }),
+    func,
+  });
+
+  expect(await correctArgs(getWeather, { city: 42 })).toBe(
+    'Function call to getWeather failed because its arguments were invalid (city: Expected string, received number). Call it again with valid arguments.'
+  );
+  // The parsed arguments (including defaults) are passed to the tool.
+  expect(func.mock.calls).toEqual([[{ city: 'Paris', days: 1 }]]);
+});
+
+test('validates arguments against plain parameters', async () => {
+  const calls = [] as object[];
+  const getWeather = defineTool({
+    description: 'Gets the weather',
+    parameters: {
+      city: { type: 'string', required: true },
+      units: { type: 'string', required: false },
+    },
+    // The arguments are typed from the parameters: this wouldn't compile if `city` weren't a string.
+    func: (args) => {
+      calls.push(args);
+      return `It is ${args.units === 'celsius' ? 20 : 68} degrees in ${args.city.toUpperCase()}.`;
+    },
+  });
+
+  expect(await correctArgs(getWeather, { units: 'celsius' })).toBe(
+    'Function call to getWeather failed because its arguments were invalid (city: Required). Call it again with valid arguments.'
+  );
+  expect(calls).toEqual([{ city: 'Paris' }]);
+});
+
+test('still accepts tools whose functions take any parameters', async () => {
+  // Before tools' arguments were typed, `func` could be declared with any parameters.
+  const getWeather: Tool = {
+    description: 'Gets the weather',
+    parameters: { city: { type: 'string', required: true } },
+    func: ({ city }: { city: string }, _units: string) => `It is sunny in ${city}.`,
+  };
+
+  expect(await correctArgs(getWeather, { city: 42 })).toBe(
+    'Function call to getWeather failed because its arguments were invalid (city: Expected string, received number). Call it again with valid arguments.'
+  );
+});
+
+/** Has the model keep calling `getWeather`, for each city in turn, until it's told it can't. */
+async function callForever(props: object, cityOfCall: (call: number) => string = () => 'Paris') {
+  const script = new ModelScript([
+    { match: "can't call any more functions", response: 'I could not find out the weather.' },
+    {
+      response: (request) => ({
+        functionCall: { name: 'getWeather', args: { city: cityOfCall((request.messages!.length - 1) / 2) } },
+      }),
+    },
+  ]);
+  const getWeather = jest.fn(({ city }: { city: string }) => `It is sunny in ${city}.`);
+
+  const result = await AI.createRenderContext().render(
+    createElement(
+      ChatProvider,
+      { component: ScriptedChatModel, script },
+      createElement(
+        UseTools,
+        { tools: { getWeather: { description: 'Gets the weather', parameters: {}, func: getWeather } }, ...props },
+        createElement(UserMessage, null, "What's the weather?")
+      )
+    )
+  );
+  return { result, calls: getWeather.mock.calls.length, modelCalls: script.requests.length };
+}
+
+test('has the model answer once it repeats a call too many times', async () => {
+  expect(await callForever({ maxIdenticalCalls: 2 })).toEqual({
+    result: 'I could not find out the weather.',
+    calls: 2,
+    modelCalls: 4,
+  });
+});
+
+test('stops at the limits on iterations and calls', async () => {
+  const eachCity = (call: number) => cities[call % cities.length];
+
+  await expect(callForever({ maxIterations: 5, onLimitReached: 'throw' }, eachCity)).rejects.toThrow(
+    new AIJSXError('UseTools stopped because the AI was called 5 times.', ErrorCode.ToolUseLimitReached, 'runtime')
+  );
+  expect(
+    await callForever({ maxCallsPerTool: { getWeather: 4 }, onLimitReached: 'fallback', fallback: 'Sorry!' }, eachCity)
+  ).toEqual({ result: 'Sorry!', calls: 4, modelCalls: 5 });
+
+  // The last call the AI may make is for its final answer.
+  expect(await callForever({ maxIterations: 3, maxIdenticalCalls: Infinity }, eachCity)).toEqual({
+    result: 'I could not find out the weather.',
+    calls: 2,
+    modelCalls: 3,
+  });
+});
+
+test('rejects limits on tool use that could never be reached', async () => {
+  for (const [name, limit, props] of [
+    ['maxIterations', 0, { maxIterations: 0, onLimitReached: 'throw' }],
+    ['maxIterations', 2.5, { maxIterations: 2.5 }],
+    ['maxIdenticalCalls', -1, { maxIdenticalCalls: -1 }],
+    ['maxCallsPerTool', NaN, { maxCallsPerTool: NaN }],
+    ['maxCallsPerTool.getWeather', 0, { maxCallsPerTool: { getWeather: 0 } }],
+  ] as const) {
+    await expect(callForever(props)).rejects.toThrow(
+      new AIJSXError(
+        `${name} must be a whole number of at least 1, or Infinity, but got ${limit}.`,
+        ErrorCode.UseToolsBadInput,
+        'user'
+      )
+    );
+  }
+});
@@ -0,0 +1,92 @@
+import * as AI from '../../dist/cjs/index.cjs';
+import { ChatCompletion, UserMessage } from '../../dist/cjs/core/completion.cjs';
+import { Budget } from '../../dist/cjs/core/budget.cjs';
+import { ErrorCode } from '../../dist/cjs/core/errors.cjs';
+import { OpenAI } from '../../dist/cjs/lib/openai.cjs';
+import { UseTools } from '../../dist/cjs/batteries/use-tools.cjs';
+import { createElement } from '../helpers/create-element.js';
+
+/** Creates a fake OpenAI client whose chat completions stream the given deltas. */
+function fakeOpenAI(deltas: object[]) {
+  const createChatCompletion = jest.fn(() => {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream({
+      start(controller) {
+        deltas.forEach((delta) =>
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ choices: [{ delta }] })}\n\n`))
+        );
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      },
+    });
+    return Promise.resolve(new Response(body, { status: 200 }));
+  });
+  return { createChatCompletion };
+}
+
+function budgetedChat(budget: Record<string, unknown>, client: object, ...children: AI.Node[]) {
+  return createElement(Budget, budget, createElement(OpenAI, { chatModel: 'gpt-4', client }, ...children));
+}
+
+const greeting = [{ role: 'assistant', content: '' }, { content: 'Hello' }, { content: ' there!' }];
+
+test('allows calls within the budget', async () => {
+  // The prompt is 9 tokens, and the response 3.
+  const client = fakeOpenAI(greeting);
+  const chat = createElement(ChatCompletion, null, createElement(UserMessage, null, 'Hi!'));
+
+  expect(await AI.createRenderContext().render(budgetedChat({ maxTokens: 12 }, client, chat))).toBe('Hello there!');
+});
+
+test('refuses calls whose prompts exceed the budget', async () => {
+  const client = fakeOpenAI(greeting);
+  const chat = createElement(ChatCompletion, null, createElement(UserMessage, null, 'Hi!'));
+
+  await expect(AI.createRenderContext().render(budgetedChat({ maxTokens: 8 }, client, chat))).rejects.toMatchObject({
+    code: ErrorCode.BudgetExceeded,
+    limit: 'maxTokens',
+    max: 8,
+    used: 9,
+  });
+  expect(client.createChatCompletion).not.toHaveBeenCalled();
+});
+
+test('stops calls whose responses exceed the budget', async () => {
+  const client = fakeOpenAI(greeting);
+  const chat = createElement(ChatCompletion, null, createElement(UserMessage, null, 'Hi!'));
+  const frames = [] as string[];
+
+  await expect(async () => {
+    for await (const frame of AI.createRenderContext().render(budgetedChat({ maxTokens: 11 }, client, chat))) {
+      frames.push(frame);
+    }
+  }).rejects.toMatchObject({ code: ErrorCode.BudgetExceeded, used: 12 });
+  expect(frames).toContain('Hello');
+  expect(frames).not.toContain('Hello there!');
+});
+
+test('stops runaway tool loops', async () => {
+  const client = fakeOpenAI([{ role: 'assistant', function_call: { name: 'search', arguments: '{}' } }]);
+  const search = jest.fn(() => 'Nothing found.');
+  const app = budgetedChat(
+    { maxCostUsd: 0.01 },
+    client,
+    createElement(
+      UseTools,
+      // Without UseTools' own limits, so that only the budget stops the loop.
+      {
+        tools: { search: { description: 'Searches the web', parameters: {}, func: search } },
+        maxIterations: Infinity,
+        maxIdenticalCalls: Infinity,
+      },
+      createElement(UserMessage, null, 'Find something.')
+    )
+  );
+
+  await expect(AI.createRenderContext().render(app)).rejects.toMatchObject({
+    code: ErrorCode.BudgetExceeded,
+    limit: 'maxCostUsd',
+  });
+  expect(client.createChatCompletion.mock.calls.length).toBeGreaterThan(1);
+  expect(search).toHaveBeenCalledTimes(client.createChatCompletion.mock.calls.length);
+});
@@ -0,0 +1,162 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import * as AI from '../../dist/cjs/index.cjs';
+import { Cache, CacheStore, MemoryCacheStore } from '../../dist/cjs/core/cache.cjs';
+import { FileCacheStore } from '../../dist/cjs/core/file-cache-store.cjs';
+import { LogImplementation, LogLevel } from '../../dist/cjs/core/log.cjs';
+import { createElement } from '../helpers/create-element.js';
+
+class MessageLog extends LogImplementation {
+  readonly messages = [] as string[];
+
+  log(
+    _level: LogLevel,
+    _element: AI.Element<any>,
+    _renderId: string,
+    metadataOrMessage: object | string,
+    message?: string
+  ) {
+    this.messages.push(message ?? (typeof metadataOrMessage === 'string' ? metadataOrMessage : ''));
+  }
+}
+
+/** Creates a component that streams "Hello, world!" and counts how many times it renders. */
+function makeExpensive() {
+  const renders = jest.fn();
+  async function* Expensive({ name }: { name: string }): AI.RenderableStream {
+    renders();
+    yield AI.AppendOnlyStream;
+    yield 'Hello, ';
+    yield `${name}!`;
+    return AI.AppendOnlyStream;
+  }
+  return { Expensive, renders };
+}
+
+async function renderFrames(node: AI.Node, logger?: LogImplementation) {
+  const frames = [] as string[];
+  const result = AI.createRenderContext({ logger }).render(node, { appendOnly: true });
+  for await (const frame of result) {
+    frames.push(frame);
+  }
+  return { frames, final: await result };
+}
+
+test('replays cached output across render contexts', async () => {
+  const { Expensive, renders } = makeExpensive();
+  const store = new MemoryCacheStore();
+  const logger = new MessageLog();
+  const cached = () => createElement(Cache, { store }, createElement(Expensive, { name: 'world' }));
+
+  const first = await renderFrames(cached(), logger);
+  const second = await renderFrames(cached(), logger);
+
+  expect(renders).toHaveBeenCalledTimes(1);
+  expect(second).toEqual(first);
+  expect(second.final).toBe('Hello, world!');
+  expect(logger.messages.filter((message) => message.startsWith('Cache'))).toEqual(['Cache miss', 'Cache hit']);
+});
+
+test('keys entries by the children unless a key is provided', async () => {
+  const { Expensive, renders } = makeExpensive();
+  const store = new MemoryCacheStore();
+
+  await renderFrames(createElement(Cache, { store }, createElement(Expensive, { name: 'world' })));
+  await renderFrames(createElement(Cache, { store }, createElement(Expensive, { name: 'there' })));
+  expect(renders).toHaveBeenCalledTimes(2);
+
+  await renderFrames(createElement(Cache, { store, key: 'greeting' }, createElement(Expensive, { name: 'world' })));
+  const { final } = await renderFrames(
+    createElement(Cache, { store, key: 'greeting' }, createElement(Expensive, { name: 'there' }))
+  );
+  expect(renders).toHaveBeenCalledTimes(3);
+  expect(final).toBe('Hello, world!');
+});
+
+test('tells apart components with the same name', async () => {
+  const first = makeExpensive();
+  const second = makeExpensive();
+  const store = new MemoryCacheStore();
+
+  await renderFrames(createElement(Cache, { store }, createElement(first.Expensive, { name: 'world' })));
+  await renderFrames(createElement(Cache, { store }, createElement(second.Expensive, { name: 'world' })));
+  expect(first.renders).toHaveBeenCalledTimes(1);
+  expect(second.renders).toHaveBeenCalledTimes(1);
+});
+
+test('tells apart components with the same name in different processes', async () => {
+  const store = new MemoryCacheStore();
+
+  // Each process loads AI.JSX afresh, and so numbers the components it sees from the start.
+  for (const renders of [jest.fn(), jest.fn()]) {
+    const Greeting = ({ name }: { name: string }) => {
+      renders();
+      return `Hello, ${name}!`;
+    };
+    let isolated = { AI, Cache };
+    jest.isolateModules(() => {
+      isolated = {
+        AI: jest.requireActual<typeof AI>('../../dist/cjs/index.cjs'),
+        Cache: jest.requireActual<{ Cache: typeof Cache }>('../../dist/cjs/core/cache.cjs').Cache,
+      };
+    });
+    const create = isolated.AI.createElement as typeof createElement;
+    await isolated.AI.createRenderContext().render(
+      create(isolated.Cache, { store }, create(Greeting, { name: 'world' }))
+    );
+    expect(renders).toHaveBeenCalledTimes(1);
+  }
+});
+
+test('only caches children with functions in their props if a key is provided', async () => {
+  const { Expensive, renders } = makeExpensive();
+  const store = new MemoryCacheStore();
+  const cached = (key?: string) =>
+    createElement(Cache, { store, key }, createElement(Expensive, { name: 'world', onDone: () => {} }));
+
+  await renderFrames(cached());
+  const { final } = await renderFrames(cached());
+  expect(renders).toHaveBeenCalledTimes(2);
+  expect(final).toBe('Hello, world!');
+
+  await renderFrames(cached('greeting'));
+  await renderFrames(cached('greeting'));
+  expect(renders).toHaveBeenCalledTimes(3);
+});
+
+test('expired entries are rendered again', async () => {
+  const { Expensive, renders } = makeExpensive();
+  const store = new MemoryCacheStore();
+  const cached = () => createElement(Cache, { store, ttl: 0 }, createElement(Expensive, { name: 'world' }));
+
+  await renderFrames(cached());
+  await renderFrames(cached());
+  expect(renders).toHaveBeenCalledTimes(2);
+});
+
+test('MemoryCacheStore evicts the least recently used entries', async () => {
+  const store = new MemoryCacheStore(2);
+  const entry = { chunks: ['x'], expiresAt: null };
+  await store.set('a', entry);
+  await store.set('b', entry);
+  await store.get('a');
+  await store.set('c', entry);
+
+  expect(await store.get('a')).toEqual(entry);
+  expect(await store.get('b')).toBeUndefined();
+  expect(await store.get('c')).toEqual(entry);
+});
+
+test('FileCacheStore persists entries', async () => {
+  const directory = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'cache-')), 'nested');
+  const { Expensive, renders } = makeExpensive();
+  const cached = (store: CacheStore) => createElement(Cache, { store }, createElement(Expensive, { name: 'world' }));
+
+  await renderFrames(cached(new FileCacheStore(directory)));
+  const { final } = await renderFrames(cached(new FileCacheStore(directory)));
+
+  expect(renders).toHaveBeenCalledTimes(1);
+  expect(final).toBe('Hello, world!');
+  expect(fs.readdirSync(directory)).toHaveLength(1);
+});
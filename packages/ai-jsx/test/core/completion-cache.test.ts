@@ -0,0 +1,133 @@
+import * as AI from '../../dist/cjs/index.cjs';
+import {
+  ChatCompletion,
+  ChatProvider,
+  Completion,
+  CompletionProvider,
+  UserMessage,
+} from '../../dist/cjs/core/completion.cjs';
+import { MemoryCacheStore } from '../../dist/cjs/core/cache.cjs';
+import { CompletionCache } from '../../dist/cjs/core/completion-cache.cjs';
+import { ModelScript, ScriptedChatModel, ScriptedCompletionModel } from '../../dist/cjs/lib/scripted.cjs';
+import { UseTools } from '../../dist/cjs/batteries/use-tools.cjs';
+import { createElement } from '../helpers/create-element.js';
+
+function cachedChat(
+  script: ModelScript,
+  store: MemoryCacheStore,
+  chatProps: Record<string, unknown>,
+  ...children: AI.Node[]
+) {
+  return createElement(
+    ChatProvider,
+    { component: ScriptedChatModel, script },
+    createElement(CompletionCache, { store }, createElement(ChatCompletion, chatProps, ...children))
+  );
+}
+
+async function renderFrames(node: AI.Node) {
+  const frames = [] as string[];
+  const result = AI.createRenderContext().render(node);
+  for await (const frame of result) {
+    if (frame !== frames[frames.length - 1]) {
+      frames.push(frame);
+    }
+  }
+  return { frames, final: await result };
+}
+
+test('replays cached chat responses', async () => {
+  const script = new ModelScript([{ response: 'Hi there, friend!' }]);
+  const store = new MemoryCacheStore();
+  const chat = (message: string) =>
+    cachedChat(script, store, { temperature: 0 }, createElement(UserMessage, null, message));
+
+  const first = await renderFrames(chat('Hello!'));
+  const second = await renderFrames(chat('Hello!'));
+  expect(second).toEqual(first);
+  expect(second.final).toBe('Hi there, friend!');
+  expect(script.requests).toHaveLength(1);
+
+  await renderFrames(chat('Goodbye!'));
+  await renderFrames(cachedChat(script, store, { temperature: 0, maxTokens: 10 }, 'Hello!'));
+  expect(script.requests).toHaveLength(3);
+});
+
+test('only caches sampled responses when told to', async () => {
+  const script = new ModelScript([{ response: 'Hi!' }]);
+  const store = new MemoryCacheStore();
+  const chat = (props: Record<string, unknown>) =>
+    cachedChat(script, store, props, createElement(UserMessage, null, 'Hello!'));
+
+  await renderFrames(chat({}));
+  await renderFrames(chat({}));
+  await renderFrames(chat({ temperature: 0.7 }));
+  expect(script.requests).toHaveLength(3);
+
+  const alwaysCached = () =>
+    createElement(
+      ChatProvider,
+      { component: ScriptedChatModel, script },
+      createElement(
+        CompletionCache,
+        { store, alwaysCache: true },
+        createElement(ChatCompletion, { temperature: 0.7 }, createElement(UserMessage, null, 'Hello!'))
+      )
+    );
+  await renderFrames(alwaysCached());
+  await renderFrames(alwaysCached());
+  expect(script.requests).toHaveLength(4);
+});
+
+test('replays cached function calls', async () => {
+  const script = new ModelScript([
+    { match: 'weather', response: { functionCall: { name: 'getWeather', args: { city: 'Paris' } } } },
+    { match: 'sunny', response: 'The weather in Paris is sunny.' },
+  ]);
+  const store = new MemoryCacheStore();
+  const getWeather = jest.fn(({ city }: { city: string }) => `It is sunny in ${city}.`);
+  const app = () =>
+    createElement(
+      ChatProvider,
+      { component: ScriptedChatModel, script, temperature: 0 },
+      createElement(
+        CompletionCache,
+        { store },
+        createElement(
+          UseTools,
+          {
+            tools: {
+              getWeather: {
+                description: 'Gets the weather',
+                parameters: { city: { type: 'string', required: true } },
+                func: getWeather,
+              },
+            },
+          },
+          createElement(UserMessage, null, "What's the weather in Paris?")
+        )
+      )
+    );
+
+  expect(await AI.createRenderContext().render(app())).toBe('The weather in Paris is sunny.');
+  expect(await AI.createRenderContext().render(app())).toBe('The weather in Paris is sunny.');
+  expect(script.requests).toHaveLength(2);
+  expect(getWeather).toHaveBeenCalledTimes(2);
+});
+
+test('caches completion models', async () => {
+  const script = new ModelScript([{ response: 'a time.' }]);
+  const store = new MemoryCacheStore();
+  const app = () =>
+    createElement(
+      CompletionProvider,
+      { component: ScriptedCompletionModel, script },
+      createElement(CompletionCache, { store }, createElement(Completion, { temperature: 0 }, 'Once upon'))
+    );
+
+  const first = await renderFrames(app());
+  const second = await renderFrames(app());
+  expect(second).toEqual(first);
+  expect(second.final).toBe('a time.');
+  expect(script.requests).toHaveLength(1);
+});
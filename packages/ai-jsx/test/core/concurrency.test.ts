@@ -0,0 +1,86 @@
+import * as AI from '../../dist/cjs/index.cjs';
+import {
+  ConcurrencyLimit as ConcurrencyLimitComponent,
+  acquireConcurrencySlot,
+} from '../../dist/cjs/core/concurrency.cjs';
+import { AIJSXError, ErrorCode } from '../../dist/cjs/core/errors.cjs';
+
+// The declared return type refers to `ai-jsx/jsx-runtime`, which doesn't resolve to the dist types used here.
+const ConcurrencyLimit = ConcurrencyLimitComponent as unknown as AI.Component<{
+  max: number;
+  key?: string;
+  children: AI.Node;
+}>;
+
+function trackConcurrency() {
+  const stats = { active: 0, maxActive: 0 };
+
+  /** Creates `count` elements that each hold a concurrency slot for `provider` for a few milliseconds. */
+  function calls(provider: string, count: number) {
+    async function FakeModelCall(_: {}, context: AI.ComponentContext) {
+      const release = await acquireConcurrencySlot(provider, context);
+      stats.active++;
+      stats.maxActive = Math.max(stats.maxActive, stats.active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      stats.active--;
+      release();
+      return provider;
+    }
+    return Array.from({ length: count }, () => AI.createElement(FakeModelCall, null));
+  }
+
+  return { stats, calls };
+}
+
+test('calls run unbounded without a ConcurrencyLimit', async () => {
+  const { stats, calls } = trackConcurrency();
+  await AI.createRenderContext().render(calls('openai', 10));
+  expect(stats.maxActive).toBe(10);
+});
+
+test('ConcurrencyLimit bounds calls to the matching provider', async () => {
+  const { stats, calls } = trackConcurrency();
+  const result = await AI.createRenderContext().render(
+    AI.createElement(ConcurrencyLimit, { max: 3, key: 'openai' }, calls('openai', 10) as AI.Node)
+  );
+  expect(result).toBe('openai'.repeat(10));
+  expect(stats.maxActive).toBe(3);
+});
+
+test('ConcurrencyLimit pools are independent per provider', async () => {
+  const { stats, calls } = trackConcurrency();
+  await AI.createRenderContext().render(
+    AI.createElement(
+      ConcurrencyLimit,
+      { max: 2, key: 'openai' },
+      AI.createElement(ConcurrencyLimit, { max: 1, key: 'anthropic' }, [
+        ...calls('openai', 5),
+        ...calls('anthropic', 5),
+      ] as AI.Node) as AI.Node
+    )
+  );
+  expect(stats.maxActive).toBe(3);
+});
+
+test('ConcurrencyLimit without a key bounds all providers', async () => {
+  const { stats, calls } = trackConcurrency();
+  await AI.createRenderContext().render(
+    AI.createElement(ConcurrencyLimit, { max: 2 }, [...calls('openai', 5), ...calls('anthropic', 5)] as AI.Node)
+  );
+  expect(stats.maxActive).toBe(2);
+});
+
+test('ConcurrencyLimit rejects a max that no call could fit under', async () => {
+  for (const max of [0, -1, 2.5, NaN]) {
+    const { calls } = trackConcurrency();
+    await expect(
+      AI.createRenderContext().render(AI.createElement(ConcurrencyLimit, { max }, calls('openai', 1) as AI.Node))
+    ).rejects.toThrow(
+      new AIJSXError(
+        `ConcurrencyLimit needs a positive whole number for max, but got ${max}.`,
+        ErrorCode.ConcurrencyLimitBadInput,
+        'user'
+      )
+    );
+  }
+});
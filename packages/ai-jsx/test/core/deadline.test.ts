@@ -0,0 +1,93 @@
+import { getEventListeners } from 'node:events';
+import * as AI from '../../dist/cjs/index.cjs';
+import { Deadline, getRemainingTime, requestTimeout } from '../../dist/cjs/core/deadline.cjs';
+import { DeadlineExceededError, ErrorCode } from '../../dist/cjs/core/errors.cjs';
+
+function Slow({ ms, children }: { ms: number; children: AI.Node }) {
+  return new Promise<AI.Node>((resolve) => setTimeout(() => resolve(children), ms));
+}
+
+test('Deadline renders its children when they finish in time', async () => {
+  const result = await AI.createRenderContext().render(
+    AI.createElement(
+      Deadline,
+      { ms: 1000, fallback: 'fallback' },
+      AI.createElement(Slow, { ms: 1 }, 'on time' as AI.Node) as AI.Node
+    )
+  );
+  expect(result).toBe('on time' as AI.Node);
+});
+
+test('Deadline renders the fallback when its children take too long', async () => {
+  const result = await AI.createRenderContext().render(
+    AI.createElement(
+      Deadline,
+      { ms: 10, fallback: 'fallback' },
+      AI.createElement(Slow, { ms: 1000 }, 'too late' as AI.Node) as AI.Node
+    )
+  );
+  expect(result).toBe('fallback');
+});
+
+test('Deadline without a fallback throws a DeadlineExceededError', async () => {
+  const renderResult = AI.createRenderContext().render(
+    AI.createElement(Deadline, { ms: 10 }, AI.createElement(Slow, { ms: 1000 }, 'too late' as AI.Node) as AI.Node)
+  );
+  await expect(renderResult).rejects.toBeInstanceOf(DeadlineExceededError);
+  await expect(renderResult).rejects.toMatchObject({ code: ErrorCode.DeadlineExceeded, blame: 'runtime' });
+});
+
+test('nested elements observe the closest deadline', async () => {
+  const remainingTimes = [] as number[];
+  function RecordRemainingTime(_: {}, context: AI.ComponentContext) {
+    remainingTimes.push(getRemainingTime(context));
+    return '';
+  }
+
+  await AI.createRenderContext().render(AI.createElement(RecordRemainingTime, null));
+  await AI.createRenderContext().render(
+    AI.createElement(
+      Deadline,
+      { ms: 5000 },
+      AI.createElement(Deadline, { ms: 100000 }, AI.createElement(RecordRemainingTime, null) as AI.Node) as AI.Node
+    )
+  );
+
+  expect(remainingTimes[0]).toBe(Infinity);
+  expect(remainingTimes[1]).toBeLessThanOrEqual(5000);
+});
+
+test('createRenderContext enforces a context-level deadline', async () => {
+  const renderResult = AI.createRenderContext({ deadlineMs: 10 }).render(
+    AI.createElement(Slow, { ms: 1000 }, 'too late' as AI.Node)
+  );
+  await expect(renderResult).rejects.toMatchObject({ code: ErrorCode.DeadlineExceeded });
+});
+
+test("repeated deadlines don't add listeners to the enclosing signal", async () => {
+  const abortController = new AbortController();
+  for (let i = 0; i < 30; i++) {
+    const renderContext = AI.createRenderContext({ signal: abortController.signal, deadlineMs: 1000 });
+    await renderContext.render(AI.createElement(Deadline, { ms: 1000 }, 'in time' as AI.Node));
+  }
+
+  expect(getEventListeners(abortController.signal, 'abort')).toHaveLength(1);
+});
+
+test('requestTimeout times requests out at the deadline', async () => {
+  let requestSignal: AbortSignal | undefined;
+  async function Request(_: {}, context: AI.ComponentContext) {
+    // A signal that's never aborted, so that only the timeout can abort the request.
+    const { signal, clear } = requestTimeout(new AbortController().signal, context);
+    requestSignal = signal;
+    await new Promise((resolve) => signal.addEventListener('abort', resolve));
+    clear();
+    return '';
+  }
+
+  await AI.createRenderContext().render(
+    AI.createElement(Deadline, { ms: 10, fallback: '' }, AI.createElement(Request, null) as AI.Node)
+  );
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  expect(requestSignal!.reason).toBeInstanceOf(DeadlineExceededError);
+});
@@ -0,0 +1,85 @@
+import * as AI from '../../dist/cjs/index.cjs';
+import { ChatCompletion, ChatProvider, SystemMessage, UserMessage } from '../../dist/cjs/core/completion.cjs';
+import { ErrorBoundary, StreamingErrorBoundary } from '../../dist/cjs/core/error-boundary.cjs';
+import { ModelScript, ScriptedChatModel } from '../../dist/cjs/lib/scripted.cjs';
+import { createElement } from '../helpers/create-element.js';
+
+/** Streams "Hello, world" and then fails. */
+async function* Interrupted(_: {}): AI.RenderableStream {
+  yield AI.AppendOnlyStream;
+  yield 'Hello, ';
+  yield 'world';
+  throw new Error('Connection lost');
+}
+
+async function renderFrames(node: AI.Node, opts: { appendOnly?: boolean } = {}) {
+  const frames = [] as string[];
+  const result = AI.createRenderContext().render(node, opts);
+  for await (const frame of result) {
+    if (frame !== frames[frames.length - 1]) {
+      frames.push(frame);
+    }
+  }
+  return { frames, final: await result };
+}
+
+const fallback = (error: unknown, partialOutput: string) => ` [${partialOutput}: ${(error as Error).message}]`;
+
+test('renders the fallback with the partial output', async () => {
+  const { frames, final } = await renderFrames(
+    createElement(StreamingErrorBoundary, { fallback }, createElement(Interrupted, {}))
+  );
+
+  expect(frames).toEqual(['', 'Hello, ', 'Hello, world']);
+  expect(final).toBe(' [Hello, world: Connection lost]');
+});
+
+test('append-only renders stream through the boundary', async () => {
+  const boundary = createElement(StreamingErrorBoundary, { fallback }, createElement(Interrupted, {}));
+  const { frames, final } = await renderFrames(['Greeting: ', boundary], { appendOnly: true });
+
+  expect(frames).toEqual(['Greeting: ', 'Greeting: Hello, ', 'Greeting: Hello, world']);
+  expect(final).toBe('Greeting: Hello, world [Hello, world: Connection lost]');
+
+  // ErrorBoundary renders its children atomically for append-only renders.
+  const atomic = await renderFrames(
+    ['Greeting: ', createElement(ErrorBoundary, { fallback: 'Failed' }, createElement(Interrupted, {}))],
+    { appendOnly: true }
+  );
+  expect(atomic.frames).toEqual([]);
+  expect(atomic.final).toBe('Greeting: Failed');
+});
+
+test('partial rendering renders through the boundary', async () => {
+  const script = new ModelScript([{ response: 'Hi!' }]);
+  const result = await AI.createRenderContext().render(
+    createElement(
+      ChatProvider,
+      { component: ScriptedChatModel, script },
+      createElement(
+        ChatCompletion,
+        null,
+        createElement(
+          StreamingErrorBoundary,
+          { fallback: createElement(SystemMessage, null, 'Be brief.') },
+          createElement(UserMessage, null, 'Hello!')
+        ),
+        createElement(
+          StreamingErrorBoundary,
+          { fallback: createElement(SystemMessage, null, 'Be brief.') },
+          createElement(Interrupted, {})
+        )
+      )
+    )
+  );
+
+  expect(result).toBe('Hi!');
+  expect(script.requests).toEqual([
+    {
+      messages: [
+        { role: 'user', content: 'Hello!' },
+        { role: 'system', content: 'Be brief.' },
+      ],
+    },
+  ]);
+});
@@ -0,0 +1,90 @@
+import * as AI from '../../dist/cjs/index.cjs';
+import { ChatCompletion, UserMessage } from '../../dist/cjs/core/completion.cjs';
+import { AIJSXError, ErrorCode, HttpError } from '../../dist/cjs/core/errors.cjs';
+import { ModelFallback } from '../../dist/cjs/core/model-fallback.cjs';
+import { ModelScript, ScriptedChatModel } from '../../dist/cjs/lib/scripted.cjs';
+import { UseTools } from '../../dist/cjs/batteries/use-tools.cjs';
+import { createElement } from '../helpers/create-element.js';
+
+function failingModel(error: Error) {
+  return jest.fn((_: { children: AI.Node }): AI.Node => {
+    throw error;
+  });
+}
+
+function chat(chatModels: unknown[], message: string, fallbackOn?: unknown) {
+  return createElement(
+    ModelFallback,
+    { chatModels, fallbackOn },
+    createElement(ChatCompletion, null, createElement(UserMessage, null, message))
+  );
+}
+
+test('falls back to the next model when a model is unavailable', async () => {
+  const unavailable = failingModel(new HttpError('Service unavailable', 503, ErrorCode.AIJSXEndpointFailed));
+  const script = new ModelScript([{ response: 'Hi there!' }]);
+
+  const result = await AI.createRenderContext().render(
+    chat([unavailable, { component: ScriptedChatModel, props: { script } }], 'Hello!')
+  );
+
+  expect(result).toBe('Hi there!');
+  expect(unavailable).toHaveBeenCalledTimes(1);
+  expect(script.requests).toEqual([{ messages: [{ role: 'user', content: 'Hello!' }] }]);
+});
+
+test('only falls back on the configured errors', async () => {
+  const badRequest = failingModel(new HttpError('Bad request', 400, ErrorCode.AIJSXEndpointFailed));
+  const script = new ModelScript([{ response: 'Hi there!' }]);
+  const models = [badRequest, { component: ScriptedChatModel, props: { script } }];
+
+  await expect(AI.createRenderContext().render(chat(models, 'Hello!'))).rejects.toThrow('Bad request');
+  expect(await AI.createRenderContext().render(chat(models, 'Hello!', { statusCodes: [400] }))).toBe('Hi there!');
+});
+
+test('does not fall back once output has streamed', async () => {
+  async function* Interrupted(_: { children: AI.Node }): AI.RenderableStream {
+    yield AI.AppendOnlyStream;
+    yield 'Hi';
+    throw new HttpError('Service unavailable', 503, ErrorCode.AIJSXEndpointFailed);
+  }
+  const script = new ModelScript([{ response: 'Hi there!' }]);
+
+  await expect(
+    AI.createRenderContext().render(chat([Interrupted, { component: ScriptedChatModel, props: { script } }], 'Hello!'))
+  ).rejects.toThrow('Service unavailable');
+  expect(script.requests).toEqual([]);
+});
+
+test('falls back to models that support functions', async () => {
+  const noFunctions = failingModel(
+    new AIJSXError('Functions are not supported.', ErrorCode.ChatModelDoesNotSupportFunctions, 'user')
+  );
+  const script = new ModelScript([
+    { match: 'weather', response: { functionCall: { name: 'getWeather', args: { city: 'Paris' } } } },
+    { match: 'sunny', response: 'The weather in Paris is sunny.' },
+  ]);
+
+  const result = await AI.createRenderContext().render(
+    createElement(
+      ModelFallback,
+      { chatModels: [noFunctions, { component: ScriptedChatModel, props: { script } }] },
+      createElement(
+        UseTools,
+        {
+          tools: {
+            getWeather: {
+              description: 'Gets the weather',
+              parameters: { city: { type: 'string', required: true } },
+              func: ({ city }: { city: string }) => `It is sunny in ${city}.`,
+            },
+          },
+        },
+        createElement(UserMessage, null, "What's the weather in Paris?")
+      )
+    )
+  );
+
+  expect(result).toBe('The weather in Paris is sunny.');
+  expect(noFunctions).toHaveBeenCalledTimes(2);
+});
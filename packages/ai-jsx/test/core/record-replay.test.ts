@@ -0,0 +1,82 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import * as AI from '../../dist/cjs/index.cjs';
+import { RecordReplay, RecordReplayMode } from '../../dist/cjs/core/record-replay.cjs';
+import { ChatCompletion, UserMessage } from '../../dist/cjs/core/completion.cjs';
+import { ErrorCode } from '../../dist/cjs/core/errors.cjs';
+import { OpenAI } from '../../dist/cjs/lib/openai.cjs';
+import { createElement } from '../helpers/create-element.js';
+
+function cassettePath() {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'record-replay-')), 'cassette.json');
+}
+
+/** Creates a fake OpenAI client whose chat completions stream the given SSE chunks. */
+function fakeOpenAI(sseChunks: string[]) {
+  const createChatCompletion = jest.fn(() => {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream({
+      start(controller) {
+        sseChunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      },
+    });
+    return Promise.resolve(new Response(body, { status: 200 }));
+  });
+  return { createChatCompletion };
+}
+
+function delta(delta: object) {
+  return `data: ${JSON.stringify({ choices: [{ delta }] })}\n\n`;
+}
+
+function renderChat(cassette: string, mode: RecordReplayMode, client: object) {
+  const chat = createElement(ChatCompletion, null, createElement(UserMessage, null, 'Hello!'));
+  const withClient = createElement(OpenAI, { chatModel: 'gpt-3.5-turbo', client }, chat);
+  return AI.createRenderContext().render(createElement(RecordReplay, { cassette, mode }, withClient), {
+    map: (frame) => frame,
+  });
+}
+
+test('model calls are recorded and then replayed chunk by chunk', async () => {
+  const cassette = cassettePath();
+  const client = fakeOpenAI([
+    delta({ role: 'assistant', content: '' }),
+    delta({ content: 'Hi' }),
+    `${delta({ content: ' there' })}data: [DONE]\n\n`,
+  ]);
+
+  expect(await renderChat(cassette, 'record', client)).toBe('Hi there');
+  expect(client.createChatCompletion).toHaveBeenCalledTimes(1);
+  expect(JSON.parse(fs.readFileSync(cassette, 'utf8')).interactions).toMatchObject([
+    { provider: 'openai.createChatCompletion', chunks: [{}, {}, {}] },
+  ]);
+
+  const replayClient = fakeOpenAI([]);
+  const frames = [] as string[];
+  for await (const frame of renderChat(cassette, 'replay', replayClient)) {
+    frames.push(frame);
+  }
+  expect(frames).toContain('Hi');
+  expect(frames[frames.length - 1]).toBe('Hi there');
+  expect(replayClient.createChatCompletion).not.toHaveBeenCalled();
+});
+
+test('replaying an unrecorded request fails', async () => {
+  const cassette = cassettePath();
+  fs.writeFileSync(cassette, JSON.stringify({ version: 1, interactions: [] }));
+
+  await expect(renderChat(cassette, 'replay', fakeOpenAI([]))).rejects.toMatchObject({
+    code: ErrorCode.RecordReplayMissingInteraction,
+  });
+});
+
+test('auto mode records requests it has not seen', async () => {
+  const cassette = cassettePath();
+  const client = fakeOpenAI([delta({ role: 'assistant', content: 'Recorded' })]);
+
+  expect(await renderChat(cassette, 'auto', client)).toBe('Recorded');
+  expect(await renderChat(cassette, 'auto', client)).toBe('Recorded');
+  expect(client.createChatCompletion).toHaveBeenCalledTimes(1);
+});
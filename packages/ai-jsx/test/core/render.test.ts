@@ -0,0 +1,317 @@
+import { getEventListeners } from 'node:events';
+import * as AI from '../../dist/cjs/index.cjs';
+import { AIJSXError, ErrorCode } from '../../dist/cjs/core/errors.cjs';
+import { debugProvenance } from '../../dist/cjs/core/debug.cjs';
+import { createElement } from '../helpers/create-element.js';
+
+function neverResolves() {
+  return new Promise<never>(() => {});
+}
+
+function Hang() {
+  return neverResolves();
+}
+
+describe('abort signals', () => {
+  test('aborting the signal passed to createRenderContext rejects the render', async () => {
+    const abortController = new AbortController();
+    const renderResult = AI.createRenderContext({ signal: abortController.signal }).render([
+      'Hello ',
+      AI.createElement(Hang, null),
+    ]);
+
+    abortController.abort();
+    await expect(renderResult).rejects.toMatchObject({ code: ErrorCode.RenderAborted });
+  });
+
+  test('an already-aborted signal prevents components from rendering', async () => {
+    const abortController = new AbortController();
+    abortController.abort();
+
+    const Component = jest.fn(() => 'rendered');
+
+    await expect(
+      AI.createRenderContext({ signal: abortController.signal }).render(AI.createElement(Component, null))
+    ).rejects.toBeInstanceOf(AIJSXError);
+    expect(Component).not.toHaveBeenCalled();
+  });
+
+  test('components can observe the signal', async () => {
+    const abortController = new AbortController();
+    let observedSignal = null as AbortSignal | null;
+    function Component(_: {}, { signal }: AI.ComponentContext) {
+      observedSignal = signal;
+      return 'done';
+    }
+
+    await AI.createRenderContext({ signal: abortController.signal }).render(AI.createElement(Component, null));
+    expect(observedSignal!.aborted).toBe(false);
+    abortController.abort();
+    expect(observedSignal!.aborted).toBe(true);
+  });
+
+  test('the signal passed to render only affects that render', async () => {
+    const abortController = new AbortController();
+    const renderContext = AI.createRenderContext();
+    const abortedRender = renderContext.render(neverResolves(), { signal: abortController.signal });
+    abortController.abort();
+
+    await expect(abortedRender).rejects.toMatchObject({ code: ErrorCode.RenderAborted });
+    await expect(renderContext.render('still works')).resolves.toBe('still works');
+  });
+
+  test("repeated renders don't add listeners to the signals they follow", async () => {
+    const contextController = new AbortController();
+    const renderController = new AbortController();
+    const renderContext = AI.createRenderContext({ signal: contextController.signal });
+    const defaultRenderContext = AI.createRenderContext();
+    for (let i = 0; i < 30; i++) {
+      await renderContext.render('hi', { signal: renderController.signal });
+      await defaultRenderContext.render('hi', { signal: renderController.signal });
+    }
+
+    expect(getEventListeners(contextController.signal, 'abort')).toHaveLength(1);
+    expect(getEventListeners(renderController.signal, 'abort')).toHaveLength(1);
+    expect(getEventListeners(defaultRenderContext.getContext(AI.AbortSignalContext), 'abort')).toHaveLength(0);
+  });
+});
+
+test('stopping iteration early tears down in-progress generators', async () => {
+  let cleanedUp = false;
+  async function* Streaming() {
+    try {
+      yield 'first';
+      await neverResolves();
+      return 'never';
+    } finally {
+      cleanedUp = true;
+    }
+  }
+
+  const iterator = AI.createRenderContext().render(AI.createElement(Streaming, null))[Symbol.asyncIterator]();
+  expect((await iterator.next()).value).toBe('first');
+  await iterator.return!('');
+
+  // Teardown happens asynchronously.
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  expect(cleanedUp).toBe(true);
+});
+
+describe('render hooks', () => {
+  function recordingHooks() {
+    const events = [] as string[];
+    const names = new Map<string, string>();
+    const nameOf = (renderId: string | null) => (renderId === null ? 'root' : names.get(renderId) ?? 'unknown');
+    const hooks: AI.RenderHooks = {
+      onElementStart: ({ renderId, parentRenderId, element }) => {
+        names.set(renderId, element.tag.name);
+        events.push(`start ${element.tag.name} (parent: ${nameOf(parentRenderId)})`);
+      },
+      onError: ({ renderId, error }) => events.push(`error ${nameOf(renderId)}: ${(error as Error).message}`),
+      onElementEnd: ({ renderId, output }) => events.push(`end ${nameOf(renderId)}: ${output?.join('')}`),
+    };
+    return { events, hooks };
+  }
+
+  test('hooks observe element starts, ends and parents', async () => {
+    function Child() {
+      return 'child';
+    }
+    async function Parent(_: {}, { render }: AI.ComponentContext) {
+      return `parent(${await render(AI.createElement(Child, null))})`;
+    }
+
+    const { events, hooks } = recordingHooks();
+    const result = await AI.createRenderContext({ hooks }).render(AI.createElement(Parent, null));
+
+    expect(result).toBe('parent(child)');
+    expect(events).toEqual([
+      'start Parent (parent: root)',
+      'start Child (parent: Parent)',
+      'end Child: child',
+      'end Parent: parent(child)',
+    ]);
+  });
+
+  test('hooks observe frames and errors', async () => {
+    async function* Failing(): AI.RenderableStream {
+      yield 'partial';
+      throw new Error('oops');
+    }
+
+    const frames = [] as string[];
+    const { events, hooks } = recordingHooks();
+    const renderContext = AI.createRenderContext().addHooks({
+      ...hooks,
+      onFrame: ({ frame }) => frames.push(frame.join('')),
+    });
+
+    await expect(renderContext.render(AI.createElement(Failing, null))).rejects.toThrow('oops');
+    expect(frames).toEqual(['partial']);
+    expect(events).toEqual(['start Failing (parent: root)', 'error Failing: oops', 'end Failing: undefined']);
+  });
+
+  test('hooks do not defeat memoization', async () => {
+    const Component = jest.fn(() => 'memoized');
+    const { hooks } = recordingHooks();
+    const renderContext = AI.createRenderContext({ hooks });
+    const memoized = renderContext.memo(AI.createElement(Component, null));
+
+    function Twice() {
+      return [memoized, memoized];
+    }
+
+    expect(await renderContext.render(AI.createElement(Twice, null))).toBe('memoizedmemoized');
+    expect(Component).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('provenance', () => {
+  function Name({ children }: { children: AI.Node }) {
+    return children;
+  }
+  async function* Exclamation(): AI.RenderableStream {
+    yield '!';
+    return '!!';
+  }
+  async function Greeting(_: {}, { render }: AI.ComponentContext) {
+    // Text produced by rendering within a component is attributed to the component.
+    const greeting = await render(AI.createElement(Name, null, 'Hello'));
+    return [`${greeting}, `, AI.createElement(Name, null, 'Sam'), AI.createElement(Exclamation, null)];
+  }
+
+  test('spans map text back to the elements that produced it', async () => {
+    const frames = [] as string[];
+    const result = await AI.createRenderContext().render(AI.createElement(Greeting, null), {
+      provenance: true,
+      map: (frame) => frames.push(frame.text),
+    });
+
+    expect(result.text).toBe('Hello, Sam!!');
+    expect(frames).toContain('Hello, Sam!');
+    expect(result.spans.map(({ start, end, tag, path }) => ({ start, end, tag, path }))).toEqual([
+      { start: 0, end: 12, tag: 'Greeting', path: ['Greeting'] },
+      { start: 7, end: 10, tag: 'Name', path: ['Greeting', 'Name'] },
+      { start: 10, end: 12, tag: 'Exclamation', path: ['Greeting', 'Exclamation'] },
+    ]);
+    expect(debugProvenance(result)).toBe('<Greeting>Hello, <Name>Sam</Name><Exclamation>!!</Exclamation></Greeting>');
+  });
+
+  test('span renderIds match those passed to hooks', async () => {
+    const renderIds = new Map<string, string>();
+    const result = await AI.createRenderContext({
+      hooks: { onElementStart: ({ renderId, element }) => renderIds.set(renderId, element.tag.name) },
+    }).render(AI.createElement(Greeting, null), { provenance: true });
+
+    for (const span of result.spans) {
+      expect(renderIds.get(span.renderId)).toBe(span.tag);
+    }
+  });
+
+  test('rendering without provenance is unaffected', async () => {
+    expect(await AI.createRenderContext().render(AI.createElement(Greeting, null))).toBe('Hello, Sam!!');
+  });
+});
+
+describe('frame coalescing', () => {
+  const counter = (count: number, onDone = () => {}) => {
+    async function* Counter(): AI.RenderableStream {
+      try {
+        yield AI.AppendOnlyStream;
+        for (let i = 0; i < count; ++i) {
+          await Promise.resolve();
+          yield `${i % 10}`;
+        }
+        return AI.AppendOnlyStream;
+      } finally {
+        onDone();
+      }
+    }
+    return AI.createElement(Counter, null);
+  };
+
+  test('slow consumers only see the latest frames', async () => {
+    const frames = [] as string[];
+    const result = AI.createRenderContext().render(counter(100), { coalesce: true });
+    for await (const frame of result) {
+      frames.push(frame);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+
+    expect(frames.length).toBeLessThan(50);
+    expect(await result).toHaveLength(100);
+  });
+
+  test('frames are only produced once the text grows by minDeltaSize', async () => {
+    const frames = [] as string[];
+    const result = AI.createRenderContext().render(counter(100), { coalesce: { minDeltaSize: 30 } });
+    for await (const frame of result) {
+      frames.push(frame);
+    }
+
+    expect(frames.map((frame) => frame.length)).toEqual([30, 60, 90]);
+    expect(await result).toHaveLength(100);
+  });
+
+  test('stopping early stops rendering', async () => {
+    const onDone = jest.fn();
+    for await (const frame of AI.createRenderContext().render(counter(100, onDone), { coalesce: true })) {
+      if (frame.length > 0) {
+        break;
+      }
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(onDone).toHaveBeenCalled();
+  });
+});
+
+describe('contexts', () => {
+  const UserId = AI.createContext<string | null>(null, 'UserId');
+  const Tenant = AI.createContext({ plan: 'free' }, 'Tenant');
+
+  function Greeting(_: {}, { getContext }: AI.ComponentContext) {
+    return `Hello, ${getContext(UserId) ?? 'stranger'} (${getContext(Tenant).plan})`;
+  }
+
+  test('consumers and getContext see the nearest provider', async () => {
+    const consumer = createElement(UserId.Consumer, { children: (userId: string | null) => `[${userId}]` });
+    const tree = [
+      AI.createElement(Greeting, null),
+      createElement(UserId.Provider, { value: 'sam' }, [AI.createElement(Greeting, null), consumer]),
+    ];
+
+    expect(await AI.createRenderContext().render(tree)).toBe('Hello, stranger (free)Hello, sam (free)[sam]');
+  });
+
+  test('render contexts can be seeded with context values', async () => {
+    const renderContext = AI.createRenderContext({
+      contexts: [
+        [UserId, 'alex'],
+        [Tenant, { plan: 'pro' }],
+      ],
+    });
+
+    expect(await renderContext.render(AI.createElement(Greeting, null))).toBe('Hello, alex (pro)');
+  });
+
+  test('active context values can be listed', async () => {
+    let snapshot = [] as AI.ContextValues<any[]>;
+    function Snapshot(_: {}, { getContextValues }: AI.ComponentContext) {
+      snapshot = getContextValues();
+      return null;
+    }
+
+    await AI.createRenderContext({ contexts: [[Tenant, { plan: 'pro' }]] }).render(
+      createElement(UserId.Provider, { value: 'sam' }, AI.createElement(Snapshot, null))
+    );
+
+    const values = Object.fromEntries(snapshot.map(([context, value]) => [context.displayName, value]));
+    expect(values).toMatchObject({ Tenant: { plan: 'pro' }, UserId: 'sam' });
+
+    // The snapshot can seed another render.
+    expect(await AI.createRenderContext({ contexts: snapshot }).render(AI.createElement(Greeting, null))).toBe(
+      'Hello, sam (pro)'
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import * as AI from '../../dist/cjs/index.cjs';
+import { AIJSXError, ErrorCode, HttpError } from '../../dist/cjs/core/errors.cjs';
+import { Retry, exponentialBackoff } from '../../dist/cjs/core/retry.cjs';
+import { LogImplementation, LogLevel } from '../../dist/cjs/core/log.cjs';
+import { createElement } from '../helpers/create-element.js';
+
+class WarningLog extends LogImplementation {
+  readonly warnings = [] as object[];
+
+  log(level: LogLevel, _element: AI.Element<any>, _renderId: string, metadataOrMessage: object | string) {
+    if (level === 'warn' && typeof metadataOrMessage === 'object') {
+      this.warnings.push(metadataOrMessage);
+    }
+  }
+}
+
+/** Creates a component that throws each of `errors` in turn before succeeding. */
+function makeFlaky(...errors: Error[]) {
+  const attempts = jest.fn();
+  function Flaky() {
+    attempts();
+    const error = errors.shift();
+    if (error) {
+      throw error;
+    }
+    return 'Success';
+  }
+  return { Flaky, attempts };
+}
+
+const runtimeError = () => new AIJSXError('Connection reset', ErrorCode.AIJSXEndpointFailed, 'runtime');
+
+test('retries runtime errors', async () => {
+  const { Flaky, attempts } = makeFlaky(runtimeError(), runtimeError());
+  const logger = new WarningLog();
+
+  const result = await AI.createRenderContext({ logger }).render(
+    createElement(Retry, { backoff: 0 }, createElement(Flaky, {}))
+  );
+
+  expect(result).toBe('Success');
+  expect(attempts).toHaveBeenCalledTimes(3);
+  expect(logger.warnings).toEqual([
+    expect.objectContaining({ attempt: 1, attempts: 3, delayMs: 0 }),
+    expect.objectContaining({ attempt: 2, attempts: 3, delayMs: 0 }),
+  ]);
+});
+
+test('gives up once the attempts are exhausted', async () => {
+  const { Flaky, attempts } = makeFlaky(runtimeError(), runtimeError());
+
+  await expect(() =>
+    AI.createRenderContext().render(createElement(Retry, { attempts: 2, backoff: 0 }, createElement(Flaky, {})))
+  ).rejects.toThrow('Connection reset');
+  expect(attempts).toHaveBeenCalledTimes(2);
+});
+
+test('does not retry errors blamed on the user', async () => {
+  const { Flaky, attempts } = makeFlaky(new AIJSXError('Bad prompt', ErrorCode.ChatCompletionBadInput, 'user'));
+
+  await expect(() =>
+    AI.createRenderContext().render(createElement(Retry, { backoff: 0 }, createElement(Flaky, {})))
+  ).rejects.toThrow('Bad prompt');
+  expect(attempts).toHaveBeenCalledTimes(1);
+});
+
+test('does not retry reaching a limit on tool use', async () => {
+  const { Flaky, attempts } = makeFlaky(new AIJSXError('UseTools stopped', ErrorCode.ToolUseLimitReached, 'runtime'));
+
+  await expect(() =>
+    AI.createRenderContext().render(createElement(Retry, { backoff: 0 }, createElement(Flaky, {})))
+  ).rejects.toThrow('UseTools stopped');
+  expect(attempts).toHaveBeenCalledTimes(1);
+});
+
+test('retries HTTP errors only for rate limits and server errors', async () => {
+  const serverError = makeFlaky(new HttpError('Unavailable', 503, ErrorCode.AIJSXEndpointFailed));
+  expect(
+    await AI.createRenderContext().render(createElement(Retry, { backoff: 0 }, createElement(serverError.Flaky, {})))
+  ).toBe('Success');
+
+  const clientError = makeFlaky(new HttpError('Bad request', 400, ErrorCode.AIJSXEndpointFailed));
+  await expect(() =>
+    AI.createRenderContext().render(createElement(Retry, { backoff: 0 }, createElement(clientError.Flaky, {})))
+  ).rejects.toThrow('Bad request');
+  expect(clientError.attempts).toHaveBeenCalledTimes(1);
+});
+
+test('honors Retry-After headers', async () => {
+  const { Flaky } = makeFlaky(
+    new HttpError('Rate limited', 429, ErrorCode.AIJSXEndpointFailed, undefined, { 'retry-after': '0.05' })
+  );
+  const logger = new WarningLog();
+
+  const start = Date.now();
+  const result = await AI.createRenderContext({ logger }).render(
+    createElement(Retry, { backoff: exponentialBackoff({ initialMs: 1, jitter: false }) }, createElement(Flaky, {}))
+  );
+
+  expect(result).toBe('Success');
+  expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+  expect(logger.warnings).toEqual([expect.objectContaining({ delayMs: 50 })]);
+});
@@ -0,0 +1,154 @@
+import * as AI from '../../dist/cjs/index.cjs';
+import { ChatCompletion, ChatProvider, UserMessage } from '../../dist/cjs/core/completion.cjs';
+import { AIJSXError, ErrorCode } from '../../dist/cjs/core/errors.cjs';
+import { BestOf, Sample, Samples } from '../../dist/cjs/core/samples.cjs';
+import { OpenAI } from '../../dist/cjs/lib/openai.cjs';
+import { ModelScript, ScriptedChatModel } from '../../dist/cjs/lib/scripted.cjs';
+import { createElement } from '../helpers/create-element.js';
+
+const tagline = () => createElement(ChatCompletion, null, createElement(UserMessage, null, 'Write a tagline.'));
+
+function scripted(script: ModelScript, ...children: AI.Node[]) {
+  return createElement(ChatProvider, { component: ScriptedChatModel, script }, ...children);
+}
+
+/** Renders the samples of `node` separately. */
+async function renderSamples(node: AI.Node) {
+  const renderContext = AI.createRenderContext();
+  const samples = await renderContext.render(node, { stop: (e) => e.tag === Sample });
+  return Promise.all(samples.filter(AI.isElement).map((sample) => renderContext.render(sample)));
+}
+
+test('makes a request per sample for models without native support', async () => {
+  const script = new ModelScript([
+    { response: 'Scoops of joy.', times: 1 },
+    { response: 'Chill out.', times: 1 },
+    { response: 'Cold comfort.', times: 1 },
+  ]);
+
+  expect(await renderSamples(scripted(script, createElement(Samples, { n: 3 }, tagline())))).toEqual([
+    'Scoops of joy.',
+    'Chill out.',
+    'Cold comfort.',
+  ]);
+  expect(script.requests).toHaveLength(3);
+});
+
+/** Creates an OpenAI component whose client streams two choices (if asked for them). */
+function fakeOpenAI() {
+  const events = [
+    { choices: [{ index: 0, delta: { role: 'assistant', content: '' } }] },
+    { choices: [{ index: 1, delta: { role: 'assistant', content: '' } }] },
+    { choices: [{ index: 1, delta: { content: 'Chill' } }] },
+    { choices: [{ index: 0, delta: { content: 'Scoops' } }] },
+    { choices: [{ index: 0, delta: { content: ' of joy.' } }] },
+    { choices: [{ index: 1, delta: { content: ' out.' } }] },
+  ];
+  const createChatCompletion = jest.fn((request: { n?: number }) => {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream({
+      start(controller) {
+        events
+          .filter(({ choices }) => choices[0].index < (request.n ?? 1))
+          .forEach((event) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`)));
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      },
+    });
+    return Promise.resolve(new Response(body, { status: 200 }));
+  });
+  const openAI = (...children: AI.Node[]) =>
+    createElement(OpenAI, { chatModel: 'gpt-4', client: { createChatCompletion } }, ...children);
+  return { openAI, createChatCompletion };
+}
+
+test('makes one request for all the samples of an OpenAI model', async () => {
+  const { openAI, createChatCompletion } = fakeOpenAI();
+
+  expect(await renderSamples(openAI(createElement(Samples, { n: 2 }, tagline())))).toEqual([
+    'Scoops of joy.',
+    'Chill out.',
+  ]);
+  expect(createChatCompletion).toHaveBeenCalledTimes(1);
+  expect(createChatCompletion.mock.calls[0][0].n).toBe(2);
+
+  // Outside of `Samples`, only the first choice is requested.
+  expect(await AI.createRenderContext().render(openAI(tagline()))).toBe('Scoops of joy.');
+  expect(createChatCompletion.mock.calls[1][0].n).toBeUndefined();
+});
+
+test('shares the request when the samples are rendered one after another', async () => {
+  const { openAI, createChatCompletion } = fakeOpenAI();
+  const renderContext = AI.createRenderContext();
+  const samples = await renderContext.render(openAI(createElement(Samples, { n: 2 }, tagline())), {
+    stop: (e) => e.tag === Sample,
+  });
+
+  const rendered = [] as string[];
+  for (const sample of samples.filter(AI.isElement)) {
+    rendered.push(await renderContext.render(sample));
+  }
+  expect(rendered).toEqual(['Scoops of joy.', 'Chill out.']);
+  expect(createChatCompletion).toHaveBeenCalledTimes(1);
+});
+
+test('rejects a bad number of samples', async () => {
+  await expect(
+    renderSamples(scripted(new ModelScript([]), createElement(Samples, { n: 0 }, tagline())))
+  ).rejects.toThrow(
+    new AIJSXError('Samples needs a positive whole number of samples, but got 0.', ErrorCode.SamplesBadInput, 'user')
+  );
+});
+
+test('picks the sample with the highest score', async () => {
+  const script = new ModelScript([
+    { response: 'Scoops of joy.', times: 1 },
+    { response: 'Chill out with a scoop of joy.', times: 1 },
+    { response: 'Cold comfort.', times: 1 },
+  ]);
+  const judge = (sample: string) => sample.length;
+
+  expect(
+    await AI.createRenderContext().render(scripted(script, createElement(BestOf, { n: 3, judge }, tagline())))
+  ).toBe('Chill out with a scoop of joy.');
+});
+
+test("doesn't pick samples whose scores aren't numbers", async () => {
+  const script = new ModelScript([
+    { response: 'Scoops of joy.', times: 1 },
+    { response: 'Chill out with a scoop of joy.', times: 1 },
+    { response: 'Cold comfort.', times: 1 },
+  ]);
+  const judge = (sample: string) => (sample.startsWith('Chill') ? NaN : sample.length);
+
+  expect(
+    await AI.createRenderContext().render(scripted(script, createElement(BestOf, { n: 3, judge }, tagline())))
+  ).toBe('Scoops of joy.');
+});
+
+test('has a model judge the samples', async () => {
+  const script = new ModelScript([
+    { match: /Which candidate is best/, response: '1' },
+    { response: 'Scoops of joy.', times: 1 },
+    { response: 'Chill out.', times: 1 },
+  ]);
+
+  expect(
+    await AI.createRenderContext().render(
+      scripted(script, createElement(BestOf, { n: 2, judge: 'Which tagline is the catchiest?' }, tagline()))
+    )
+  ).toBe('Chill out.');
+
+  const judgement = script.requests[2];
+  expect(judgement.maxTokens).toBe(1);
+  expect(judgement.messages).toEqual([
+    {
+      role: 'system',
+      content: expect.stringContaining('Judge them by these criteria: Which tagline is the catchiest?'),
+    },
+    {
+      role: 'user',
+      content: 'Candidate 0:\nScoops of joy.\n\nCandidate 1:\nChill out.\n\nWhich candidate is best?',
+    },
+  ]);
+});
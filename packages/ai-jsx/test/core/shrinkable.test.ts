@@ -0,0 +1,142 @@
+import * as AI from '../../dist/cjs/index.cjs';
+import {
+  AssistantMessage,
+  ChatCompletion,
+  ChatProvider,
+  SystemMessage,
+  UserMessage,
+} from '../../dist/cjs/core/completion.cjs';
+import { Shrinkable } from '../../dist/cjs/core/shrinkable.cjs';
+import { OpenAI } from '../../dist/cjs/lib/openai.cjs';
+import { ModelScript, ScriptedChatModel } from '../../dist/cjs/lib/scripted.cjs';
+import { createElement } from '../helpers/create-element.js';
+
+/** Renders a chat completion with a fake OpenAI client, and returns the messages that were sent to it. */
+async function sentMessages(promptTokenLimit: number, ...children: AI.Node[]) {
+  const createChatCompletion = jest.fn((_request: { messages: { role: string; content: string }[] }) => {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream({
+      start(controller) {
+        const event = { choices: [{ delta: { role: 'assistant', content: 'Hello!' } }] };
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      },
+    });
+    return Promise.resolve(new Response(body, { status: 200 }));
+  });
+
+  // GPT-4 has a context window of 8,192 tokens, which leaves `promptTokenLimit` for the prompt.
+  await AI.createRenderContext().render(
+    createElement(
+      OpenAI,
+      { chatModel: 'gpt-4', client: { createChatCompletion } },
+      createElement(ChatCompletion, { maxTokens: 8192 - promptTokenLimit }, ...children)
+    )
+  );
+  return createChatCompletion.mock.calls[0][0].messages.map(({ role, content }) => ({ role, content }));
+}
+
+// Each of these is 100 tokens.
+const alphas = ' alpha'.repeat(100);
+const betas = ' beta'.repeat(100);
+const gammas = ' gamma'.repeat(100);
+
+function excerpts() {
+  return createElement(
+    SystemMessage,
+    null,
+    'Excerpts:',
+    createElement(Shrinkable, { importance: 2 }, alphas),
+    createElement(Shrinkable, { importance: 1, replacement: ' (beta omitted)' }, betas),
+    createElement(Shrinkable, { importance: 3 }, gammas)
+  );
+}
+
+test('leaves prompts that fit as they are', async () => {
+  expect(await sentMessages(1000, excerpts())).toEqual([
+    { role: 'system', content: `Excerpts:${alphas}${betas}${gammas}` },
+  ]);
+});
+
+test('shrinks the least important content first', async () => {
+  expect(await sentMessages(250, excerpts())).toEqual([
+    { role: 'system', content: `Excerpts:${alphas} (beta omitted)${gammas}` },
+  ]);
+  expect(await sentMessages(150, excerpts())).toEqual([
+    { role: 'system', content: `Excerpts: (beta omitted)${gammas}` },
+  ]);
+});
+
+test('shrinks earlier content of equal importance first', async () => {
+  const history = [alphas, betas, gammas].map((content, i) =>
+    createElement(Shrinkable, { importance: 0 }, createElement(i % 2 ? AssistantMessage : UserMessage, null, content))
+  );
+
+  expect(await sentMessages(250, ...history, createElement(UserMessage, null, 'Hi!'))).toEqual([
+    { role: 'assistant', content: betas },
+    { role: 'user', content: gammas },
+    { role: 'user', content: 'Hi!' },
+  ]);
+});
+
+test('shrinks the contents of replacements once they replace the original content', async () => {
+  const nested = createElement(
+    Shrinkable,
+    {
+      importance: 1,
+      replacement: [createElement(Shrinkable, { importance: 0 }, betas), ' (alpha omitted)'],
+    },
+    alphas,
+    createElement(Shrinkable, { importance: 2 }, gammas)
+  );
+
+  expect(await sentMessages(150, createElement(UserMessage, null, nested))).toEqual([
+    { role: 'user', content: `${betas} (alpha omitted)` },
+  ]);
+  expect(await sentMessages(50, createElement(UserMessage, null, nested))).toEqual([
+    { role: 'user', content: ' (alpha omitted)' },
+  ]);
+});
+
+test('fits prompts for any chat model that declares its context window', async () => {
+  const script = new ModelScript([{ response: 'Hello!' }]);
+  await AI.createRenderContext().render(
+    createElement(
+      ChatProvider,
+      { component: ScriptedChatModel, script, contextWindow: 1000 },
+      createElement(ChatCompletion, { maxTokens: 750 }, excerpts())
+    )
+  );
+
+  expect(script.requests[0].messages).toEqual([
+    { role: 'system', content: `Excerpts:${alphas} (beta omitted)${gammas}` },
+  ]);
+});
+
+test("leaves prompts as they are if the model's context window is unknown", async () => {
+  const script = new ModelScript([{ response: 'Hello!' }]);
+  await AI.createRenderContext().render(
+    createElement(
+      ChatProvider,
+      { component: ScriptedChatModel, script },
+      createElement(ChatCompletion, { maxTokens: 750 }, excerpts())
+    )
+  );
+
+  expect(script.requests[0].messages).toEqual([{ role: 'system', content: `Excerpts:${alphas}${betas}${gammas}` }]);
+});
+
+test('passes prompts without Shrinkables to the model as they are, even if the context window is known', async () => {
+  const prompt = createElement(UserMessage, null, alphas);
+  const ChatModel = jest.fn((_props: { children: AI.Node }) => 'Hello!');
+  await AI.createRenderContext().render(
+    createElement(
+      ChatProvider,
+      { component: ChatModel, contextWindow: 100 },
+      createElement(ChatCompletion, { maxTokens: 750 }, prompt)
+    )
+  );
+
+  expect(ChatModel.mock.calls[0][0].children).toBe(prompt);
+});
@@ -0,0 +1,25 @@
+import { cl100kTokenizer, gpt2Tokenizer, p50kTokenizer, tokenizerForModel } from '../../dist/cjs/core/tokenizer.cjs';
+
+test('encodes text with the model-specific encodings', () => {
+  expect(cl100kTokenizer.encode('hello world')).toEqual([15339, 1917]);
+  expect(gpt2Tokenizer.encode('hello world')).toEqual([31373, 995]);
+
+  // p50k_base extends the GPT-2 encoding with tokens for runs of spaces.
+  expect(p50kTokenizer.encode('    return')).toHaveLength(2);
+  expect(gpt2Tokenizer.encode('    return')).toHaveLength(4);
+});
+
+test('decodes tokens back to text', () => {
+  const text = 'Ünïcödé <|endoftext|> text 🙂';
+  for (const tokenizer of [cl100kTokenizer, gpt2Tokenizer, p50kTokenizer]) {
+    expect(tokenizer.decode(tokenizer.encode(text))).toBe(text);
+  }
+});
+
+test('finds the tokenizer for a model', () => {
+  expect(tokenizerForModel('gpt-4-0613')).toBe(cl100kTokenizer);
+  expect(tokenizerForModel('gpt-3.5-turbo-16k')).toBe(cl100kTokenizer);
+  expect(tokenizerForModel('text-davinci-003')).toBe(p50kTokenizer);
+  expect(tokenizerForModel('text-curie-001')).toBe(gpt2Tokenizer);
+  expect(tokenizerForModel('claude-2')).toBe(gpt2Tokenizer);
+});
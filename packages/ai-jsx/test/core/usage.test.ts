@@ -0,0 +1,119 @@
+import * as AI from '../../dist/cjs/index.cjs';
+import { ChatCompletion, ChatProvider, UserMessage } from '../../dist/cjs/core/completion.cjs';
+import { TrackUsage, UsageTracker, costOf, reportUsage } from '../../dist/cjs/core/usage.cjs';
+import { OpenAI } from '../../dist/cjs/lib/openai.cjs';
+import { createElement } from '../helpers/create-element.js';
+
+/** Creates a fake OpenAI client whose chat completions stream the given events. */
+function fakeOpenAI(events: object[]) {
+  const createChatCompletion = jest.fn(() => {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream({
+      start(controller) {
+        events.forEach((event) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`)));
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      },
+    });
+    return Promise.resolve(new Response(body, { status: 200 }));
+  });
+  return { createChatCompletion };
+}
+
+function chat(client: object, message: string) {
+  return createElement(
+    OpenAI,
+    { chatModel: 'gpt-4', client },
+    createElement(ChatCompletion, null, createElement(UserMessage, null, message))
+  );
+}
+
+const response = [
+  { choices: [{ delta: { role: 'assistant', content: '' } }] },
+  { choices: [{ delta: { content: 'Hello' } }] },
+  { choices: [{ delta: { content: ' there!' } }] },
+];
+
+test('counts the tokens of model calls that do not report usage', async () => {
+  const tracker = new UsageTracker();
+  const result = await AI.createRenderContext().render(
+    createElement(TrackUsage, { tracker }, chat(fakeOpenAI(response), 'Hi!'))
+  );
+
+  expect(result).toBe('Hello there!');
+  expect(tracker.records).toEqual([
+    {
+      provider: 'openai',
+      model: 'gpt-4',
+      // 3 tokens for the reply, 3 for the message, and one each for "user", "Hi" and "!".
+      promptTokens: 9,
+      completionTokens: 3,
+      estimated: true,
+      costUsd: (9 / 1000) * 0.03 + (3 / 1000) * 0.06,
+    },
+  ]);
+});
+
+test('prefers the usage reported by the model', async () => {
+  const tracker = new UsageTracker();
+  const usage = { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 };
+  await AI.createRenderContext().render(
+    createElement(TrackUsage, { tracker }, chat(fakeOpenAI([...response, { choices: [{ delta: {} }], usage }]), 'Hi!'))
+  );
+
+  expect(tracker.records).toMatchObject([{ promptTokens: 10, completionTokens: 20, estimated: false }]);
+});
+
+test('aggregates usage for each enclosing tracker', async () => {
+  function CustomModel(_: { children: AI.Node }, context: AI.ComponentContext) {
+    reportUsage(
+      { provider: 'custom', model: 'my-model', promptTokens: 100, completionTokens: 50, estimated: false },
+      context
+    );
+    return 'Custom response';
+  }
+
+  const total = new UsageTracker();
+  const custom = new UsageTracker();
+  await AI.createRenderContext().render(
+    createElement(
+      TrackUsage,
+      { tracker: total },
+      chat(fakeOpenAI(response), 'Hi!'),
+      createElement(
+        TrackUsage,
+        { tracker: custom },
+        createElement(
+          ChatProvider,
+          { component: CustomModel },
+          createElement(ChatCompletion, null, createElement(UserMessage, null, 'Hi!'))
+        )
+      )
+    )
+  );
+
+  expect(custom.totals).toEqual({
+    calls: 1,
+    promptTokens: 100,
+    completionTokens: 50,
+    totalTokens: 150,
+    images: 0,
+    costUsd: 0,
+    unpricedCalls: 1,
+  });
+  expect(total.totals).toMatchObject({ calls: 2, promptTokens: 109, completionTokens: 53, unpricedCalls: 1 });
+  expect(total.totalsByModel()).toMatchObject({ 'gpt-4': { calls: 1 }, 'my-model': { calls: 1 } });
+});
+
+test('prices models by their longest matching prefix', () => {
+  const usage = { provider: 'openai', promptTokens: 1000, completionTokens: 1000, estimated: false };
+  expect(costOf({ ...usage, model: 'gpt-4-0613' })).toBeCloseTo(0.09);
+  expect(costOf({ ...usage, model: 'gpt-4-32k-0613' })).toBeCloseTo(0.18);
+  expect(costOf({ ...usage, model: 'unknown-model' })).toBeUndefined();
+  expect(
+    costOf(
+      { ...usage, model: 'dall-e', promptTokens: 0, completionTokens: 0, images: { count: 2, size: '256x256' } },
+      { 'dall-e': { perImage: { '256x256': 0.5 } } }
+    )
+  ).toBe(1);
+});
@@ -0,0 +1,7 @@
+import * as AI from '../../dist/cjs/index.cjs';
+
+/**
+ * `AI.createElement`, without type checking. The components' declared return types refer to `ai-jsx/jsx-runtime`,
+ * which doesn't resolve to the dist types the tests use, so their elements can't be type checked.
+ */
+export const createElement = AI.createElement as (tag: any, props: any, ...children: AI.Node[]) => AI.Element<any>;
@@ -0,0 +1,61 @@
+import * as AI from '../../dist/cjs/index.cjs';
+import { ChatCompletion, UserMessage } from '../../dist/cjs/core/completion.cjs';
+import { AIJSXError, ErrorCode } from '../../dist/cjs/core/errors.cjs';
+import { cl100kTokenizer } from '../../dist/cjs/core/tokenizer.cjs';
+import { OpenAI } from '../../dist/cjs/lib/openai.cjs';
+import { createElement } from '../helpers/create-element.js';
+
+/** Renders a chat completion with a fake OpenAI client, and returns the `logit_bias` that was sent to it. */
+async function sentLogitBias(props: object) {
+  const createChatCompletion = jest.fn((_request: { logit_bias?: Record<number, number> }) => {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream({
+      start(controller) {
+        const event = { choices: [{ delta: { role: 'assistant', content: 'Yes' } }] };
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      },
+    });
+    return Promise.resolve(new Response(body, { status: 200 }));
+  });
+
+  await AI.createRenderContext().render(
+    createElement(
+      OpenAI,
+      { chatModel: 'gpt-4', client: { createChatCompletion } },
+      createElement(ChatCompletion, props, createElement(UserMessage, null, 'Is the sky blue?'))
+    )
+  );
+  return createChatCompletion.mock.calls[0][0].logit_bias;
+}
+
+const [yes] = cl100kTokenizer.encode('Yes');
+const [no] = cl100kTokenizer.encode('No');
+// "Not sure" is two tokens: "Not" and " sure".
+const [not, sure] = cl100kTokenizer.encode('Not sure');
+
+test('biases single-token strings and token ids', async () => {
+  expect(await sentLogitBias({})).toBeUndefined();
+  expect(await sentLogitBias({ logitBias: { Yes: 10, No: -10 }, logitBiasTokenIds: { [no]: 5, 1234: 1 } })).toEqual({
+    [yes]: 10,
+    [no]: 5,
+    1234: 1,
+  });
+});
+
+test('biases multi-token strings according to logitBiasMultiToken', async () => {
+  await expect(sentLogitBias({ logitBias: { 'Not sure': -100 } })).rejects.toThrow(
+    new AIJSXError(
+      '"Not sure" is 2 tokens, so it can only be given a logit bias if logitBiasMultiToken is set.',
+      ErrorCode.LogitBiasBadInput,
+      'user'
+    )
+  );
+  expect(await sentLogitBias({ logitBias: { 'Not sure': -100 }, logitBiasMultiToken: 'firstToken' })).toEqual({
+    [not]: -100,
+  });
+  expect(
+    await sentLogitBias({ logitBias: { Not: 50, 'Not sure': 100, Yes: 100 }, logitBiasMultiToken: 'allTokens' })
+  ).toEqual({ [not]: 100, [sure]: 100, [yes]: 100 });
+});
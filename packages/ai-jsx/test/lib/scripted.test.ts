@@ -0,0 +1,138 @@
+import * as AI from '../../dist/cjs/index.cjs';
+import {
+  ChatCompletion,
+  ChatProvider,
+  Completion,
+  CompletionProvider,
+  FunctionCall,
+  UserMessage,
+} from '../../dist/cjs/core/completion.cjs';
+import { ErrorCode } from '../../dist/cjs/core/errors.cjs';
+import { ModelScript, ScriptedChatModel, ScriptedCompletionModel } from '../../dist/cjs/lib/scripted.cjs';
+import { UseTools } from '../../dist/cjs/batteries/use-tools.cjs';
+import { createElement } from '../helpers/create-element.js';
+
+function chat(script: ModelScript, message: string) {
+  return createElement(
+    ChatProvider,
+    { component: ScriptedChatModel, script },
+    createElement(ChatCompletion, null, createElement(UserMessage, null, message))
+  );
+}
+
+it('streams the matching response token by token', async () => {
+  const script = new ModelScript([
+    { match: 'goodbye', response: 'See you later!' },
+    { match: /hel+o/i, response: 'Hi there, friend!' },
+  ]);
+
+  const frames: string[] = [];
+  for await (const frame of AI.createRenderContext().render(chat(script, 'Hello!'))) {
+    if (frame !== frames[frames.length - 1]) {
+      frames.push(frame);
+    }
+  }
+
+  expect(frames).toEqual(['', 'Hi ', 'Hi there, ', 'Hi there, friend!']);
+  expect(script.requests).toEqual([{ messages: [{ role: 'user', content: 'Hello!' }] }]);
+});
+
+it('respects how many times a rule can be used', async () => {
+  const script = new ModelScript([
+    { response: 'first', times: 1 },
+    { response: (request) => `echo: ${request.messages?.[0].role}` },
+  ]);
+
+  expect(await AI.createRenderContext().render(chat(script, 'a'))).toBe('first');
+  expect(await AI.createRenderContext().render(chat(script, 'b'))).toBe('echo: user');
+});
+
+it('throws when no rule matches', async () => {
+  const script = new ModelScript([{ match: 'weather', response: 'Sunny.' }]);
+
+  await expect(AI.createRenderContext().render(chat(script, 'Hello!'))).rejects.toMatchObject({
+    code: ErrorCode.ScriptedModelUnmatchedRequest,
+  });
+  expect(script.requests).toHaveLength(1);
+});
+
+it('streams function calls one argument at a time', async () => {
+  const script = new ModelScript([
+    { response: { functionCall: { name: 'getWeather', args: { city: 'Paris', days: 2 } } } },
+  ]);
+
+  const argsOfFrames = [] as unknown[];
+  const renderResult = AI.createRenderContext().render(chat(script, 'weather'), {
+    stop: (e) => e.tag === FunctionCall,
+    map: (frame) => frame,
+  });
+  for await (const frame of renderResult) {
+    argsOfFrames.push(...frame.filter(AI.isElement).map((element) => element.props.args));
+  }
+
+  expect(argsOfFrames).toContainEqual({});
+  expect(argsOfFrames).toContainEqual({ city: 'Paris' });
+  expect((await renderResult).filter(AI.isElement)[0].props.args).toEqual({ city: 'Paris', days: 2 });
+});
+
+it('drives UseTools with function calls', async () => {
+  const getWeather = jest.fn(({ city }: { city: string }) => `It is sunny in ${city}.`);
+  const script = new ModelScript([
+    { match: 'weather', response: { functionCall: { name: 'getWeather', args: { city: 'Paris' } } } },
+    { match: 'sunny', response: 'The weather in Paris is sunny.' },
+  ]);
+
+  const result = await AI.createRenderContext().render(
+    createElement(
+      ChatProvider,
+      { component: ScriptedChatModel, script },
+      createElement(
+        UseTools,
+        {
+          tools: {
+            getWeather: {
+              description: 'Gets the weather',
+              parameters: { city: { type: 'string', required: true } },
+              func: getWeather,
+            },
+          },
+        },
+        createElement(UserMessage, null, "What's the weather in Paris?")
+      )
+    )
+  );
+
+  expect(result).toBe('The weather in Paris is sunny.');
+  expect(getWeather).toHaveBeenCalledWith({ city: 'Paris' });
+  expect(script.requests[1].messages).toEqual([
+    { role: 'user', content: "What's the weather in Paris?" },
+    { role: 'functionCall', name: 'getWeather', args: { city: 'Paris' } },
+    { role: 'functionResponse', name: 'getWeather', content: 'It is sunny in Paris.' },
+  ]);
+  expect(Object.keys(script.requests[0].functionDefinitions ?? {})).toEqual(['getWeather']);
+});
+
+it('scripts completion models', async () => {
+  const script = new ModelScript([{ match: /^Once upon/, response: 'a time.' }]);
+
+  const result = await AI.createRenderContext().render(
+    createElement(
+      CompletionProvider,
+      { component: ScriptedCompletionModel, script },
+      createElement(Completion, { maxTokens: 10 }, 'Once upon')
+    )
+  );
+
+  expect(result).toBe('a time.');
+  expect(script.requests).toEqual([{ maxTokens: 10, prompt: 'Once upon' }]);
+});
+
+it('throws when a completion model is scripted to call a function', async () => {
+  const script = new ModelScript([{ response: { functionCall: { name: 'getWeather', args: {} } } }]);
+
+  await expect(
+    AI.createRenderContext().render(
+      createElement(CompletionProvider, { component: ScriptedCompletionModel, script }, createElement(Completion, null))
+    )
+  ).rejects.toMatchObject({ code: ErrorCode.ScriptedCompletionModelBadResponse });
+});
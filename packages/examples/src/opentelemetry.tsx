@@ -7,47 +7,33 @@ import * as AI from 'ai-jsx';
 import { Completion } from 'ai-jsx/core/completion';
 import { Inline } from 'ai-jsx/core/inline';
 import { debug } from 'ai-jsx/core/debug';
-import { AsyncLocalStorage } from 'node:async_hooks';
 
-export function bindAsyncGenerator<T = unknown, TReturn = any, TNext = unknown>(
-  generator: AsyncGenerator<T, TReturn, TNext>
-): AsyncGenerator<T, TReturn, TNext> {
-  const result = {
-    next: AsyncLocalStorage.bind(generator.next.bind(generator)),
-    return: AsyncLocalStorage.bind(generator.return.bind(generator)),
-    throw: AsyncLocalStorage.bind(generator.throw.bind(generator)),
+function OpenTelemetryTracer(props: { children: AI.Node }, { addHooks }: AI.ComponentContext) {
+  const tracer = opentelemetry.trace.getTracer('ai.jsx');
+  const spans = new Map<string, opentelemetry.Span>();
 
-    [Symbol.asyncIterator]() {
-      return result;
-    },
-  };
-
-  return result;
-}
-
-function OpenTelemetryTracer(props: { children: AI.Node }, { wrapRender }: AI.ComponentContext) {
   return AI.withContext(
     <>{props.children}</>,
-    wrapRender((r) => {
-      const tracer = opentelemetry.trace.getTracer('ai.jsx');
-      return (renderContext, renderable, shouldStop, appendOnly) =>
-        AI.isElement(renderable)
-          ? tracer.startActiveSpan(
-              `<${renderable.tag.name}>`,
-              { attributes: { 'ai.jsx.tag': renderable.tag.name, 'ai.jsx.tree': debug(renderable, true) } },
-              (span: opentelemetry.Span) => {
-                async function* gen() {
-                  try {
-                    return yield* r(renderContext, renderable, shouldStop, appendOnly);
-                  } finally {
-                    span.end();
-                  }
-                }
-
-                return bindAsyncGenerator(gen());
-              }
-            )
-          : r(renderContext, renderable, shouldStop, appendOnly);
+    addHooks({
+      onElementStart: ({ renderId, parentRenderId, element, startTime }) => {
+        const parentSpan = parentRenderId === null ? undefined : spans.get(parentRenderId);
+        const parentContext = parentSpan
+          ? opentelemetry.trace.setSpan(opentelemetry.context.active(), parentSpan)
+          : opentelemetry.context.active();
+        const span = tracer.startSpan(
+          `<${element.tag.name}>`,
+          { startTime, attributes: { 'ai.jsx.tag': element.tag.name, 'ai.jsx.tree': debug(element, true) } },
+          parentContext
+        );
+        spans.set(renderId, span);
+      },
+      onError: ({ renderId, error }) => {
+        spans.get(renderId)?.setStatus({ code: opentelemetry.SpanStatusCode.ERROR, message: `${error}` });
+      },
+      onElementEnd: ({ renderId, endTime }) => {
+        spans.get(renderId)?.end(endTime);
+        spans.delete(renderId);
+      },
     })
   );
 }